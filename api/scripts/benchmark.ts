@@ -0,0 +1,100 @@
+/**
+ * Run the golden dataset against the classifiers in process and write a report
+ *
+ * Usage:
+ *   npm run benchmark -- [--dataset benchmarks/datasets/golden-v1.json]
+ *                        [--providers anthropic,openai] [--out benchmarks/reports]
+ *                        [--baseline <report.json>] [--threshold 0.05] [--fail-on-regression]
+ *
+ * Writes <out>/<dataset>-v<version>-<timestamp>.json and .md. Without --baseline the
+ * most recent earlier report for the same dataset in <out> is used for the diff.
+ *
+ * Uses the same provider keys as the API (ANTHROPIC_API_KEY, OPENAI_API_KEY, ZONOS_API_KEY)
+ */
+
+import 'dotenv/config';
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  DEFAULT_REGRESSION_THRESHOLD,
+  diffReports,
+  loadDataset,
+  renderMarkdown,
+  runBenchmark,
+} from '../src/services/benchmark/index.js';
+import type { BenchmarkReport } from '../src/types/benchmark.js';
+
+const { values: args } = parseArgs({
+  options: {
+    dataset: { type: 'string', default: 'benchmarks/datasets/golden-v1.json' },
+    providers: { type: 'string' },
+    out: { type: 'string', default: 'benchmarks/reports' },
+    baseline: { type: 'string' },
+    threshold: { type: 'string', default: String(DEFAULT_REGRESSION_THRESHOLD) },
+    'fail-on-regression': { type: 'boolean', default: false },
+  },
+});
+
+function previousReport(dir: string, datasetName: string): string | undefined {
+  if (!fs.existsSync(dir)) return undefined;
+  // Timestamped names sort chronologically
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.startsWith(`${datasetName}-v`) && file.endsWith('.json'))
+    .sort()
+    .map((file) => path.join(dir, file))
+    .pop();
+}
+
+async function main() {
+  const dataset = loadDataset(args.dataset!);
+  const providers = args.providers?.split(',').map((name) => name.trim());
+  console.log(`Benchmarking ${dataset.name} v${dataset.version} (${dataset.cases.length} cases)`);
+
+  const baselineFile = args.baseline ?? previousReport(args.out!, dataset.name);
+
+  const report = await runBenchmark(dataset, {
+    providers,
+    onCase: (id, results) => {
+      const summary = Object.values(results)
+        .map((r) => `${r.provider}=${r.error ? 'error' : r.hsCode}`)
+        .join(' ');
+      console.log(`  ${id}: ${summary}`);
+    },
+  });
+
+  const baseline = baselineFile
+    ? (JSON.parse(fs.readFileSync(baselineFile, 'utf-8')) as BenchmarkReport)
+    : undefined;
+  const diff = baseline ? diffReports(baseline, report, Number(args.threshold)) : undefined;
+
+  fs.mkdirSync(args.out!, { recursive: true });
+  const stem = path.join(
+    args.out!,
+    `${dataset.name}-v${dataset.version}-${report.startedAt.replace(/[:.]/g, '-')}`
+  );
+  fs.writeFileSync(`${stem}.json`, JSON.stringify({ ...report, ...(diff && { diff }) }, null, 2));
+  fs.writeFileSync(`${stem}.md`, renderMarkdown(report, diff));
+
+  console.log('');
+  for (const [name, summary] of Object.entries(report.providers)) {
+    const hs6 = summary.accuracy.hs6 === undefined ? '–' : `${(summary.accuracy.hs6 * 100).toFixed(1)}%`;
+    console.log(`${name}: HS6 ${hs6}, ECE ${summary.calibration.expectedCalibrationError}, p50 ${summary.latencyMs.p50}ms`);
+  }
+  if (diff) {
+    console.log(`\nCompared with ${baselineFile}`);
+    for (const regression of diff.regressions) console.log(`  ✗ ${regression}`);
+    if (diff.regressions.length === 0) console.log('  ✓ No regressions');
+  }
+  console.log(`\nReport written to ${stem}.json and ${stem}.md`);
+
+  if (args['fail-on-regression'] && diff && diff.regressions.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,18 @@
+/**
+ * Serve the Zonos stand-in so the API can run without Zonos credentials or network
+ *
+ * Usage:
+ *   npm run mock:zonos                  # listens on MOCK_ZONOS_PORT (default 4010)
+ *   ZONOS_API_URL=http://localhost:4010 ZONOS_API_KEY=mock npm run dev
+ *
+ * Classifies against the bundled HS nomenclature and prices landed cost with the local
+ * duty engine, so results follow the bundled tariff schedules, not live Zonos data.
+ */
+
+import { createZonosMock } from '../src/mocks/zonos/index.js';
+
+const PORT = Number(process.env.MOCK_ZONOS_PORT) || 4010;
+
+createZonosMock().listen(PORT, () => {
+  console.log(`Zonos mock listening at http://localhost:${PORT}/graphql`);
+});
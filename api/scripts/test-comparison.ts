@@ -133,8 +133,8 @@ async function runTest(testCase: TestCase) {
     // Display analysis
     console.log('\n🔍 Analysis:');
     console.log('-'.repeat(40));
-    console.log(`HS6 Match (Anthropic vs Zonos): ${result.analysis.hsCodeMatch.hs6Match.anthropicVsZonos ? '✓' : '✗'}`);
-    console.log(`Exact Match: ${result.analysis.hsCodeMatch.anthropicVsZonos ? '✓' : '✗'}`);
+    console.log(`HS6 Match (Anthropic vs Zonos): ${result.analysis.hs6Match.anthropic?.zonos ? '✓' : '✗'}`);
+    console.log(`Exact Match: ${result.analysis.hsCodeMatch.anthropic?.zonos ? '✓' : '✗'}`);
     if (result.analysis.notes) {
       console.log(`Notes: ${result.analysis.notes}`);
     }
@@ -178,8 +178,8 @@ async function main() {
   let exactMatches = 0;
 
   for (const result of results) {
-    if (result.analysis.hsCodeMatch.hs6Match.anthropicVsZonos) hs6Matches++;
-    if (result.analysis.hsCodeMatch.anthropicVsZonos) exactMatches++;
+    if (result.analysis.hs6Match.anthropic?.zonos) hs6Matches++;
+    if (result.analysis.hsCodeMatch.anthropic?.zonos) exactMatches++;
   }
 
   console.log(`\nTests Run:        ${results.length}`);
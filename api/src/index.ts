@@ -4,6 +4,16 @@ import cors from 'cors';
 import compareRouter from './routes/compare.js';
 import dutyRouter from './routes/duty.js';
 import voiceRouter from './routes/voice.js';
+import taxRatesRouter from './routes/taxRates.js';
+import hsRouter from './routes/hs.js';
+import fxRouter from './routes/fx.js';
+import batchRouter from './routes/batch.js';
+import promptsRouter from './routes/prompts.js';
+import { getComparisonRepository } from './services/storage/index.js';
+import { getProviderNames } from './services/classifiers/index.js';
+import { refreshRates } from './services/fx/index.js';
+import { resumeBatchJobs } from './services/batch/index.js';
+import { loadPromptExperiments } from './services/prompts/index.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -24,12 +34,35 @@ app.get('/api', (_req, res) => {
     version: '0.1.0',
     description: 'A/B testing API for HS code classification comparison',
     endpoints: {
-      'POST /api/compare': 'Run classification comparison between Anthropic, OpenAI, and Zonos',
+      'POST /api/compare': 'Run classification comparison between all registered providers',
+      'POST /api/compare/stream': 'Run a comparison, streaming progress as Server-Sent Events',
       'GET /api/compare': 'List all comparison results',
       'GET /api/compare/:id': 'Get specific comparison result',
-      'GET /api/compare/stats/summary': 'Get aggregated comparison statistics',
-      'POST /api/duty': 'Calculate import duties and taxes for an HS code',
+      'PUT /api/compare/:id/label': 'Attach a verified HS code to a comparison',
+      'POST /api/compare/:id/clarify': 'Start a clarification session; the classifier may ask questions',
+      'GET /api/compare/:id/clarify': 'Get the clarification session of a comparison',
+      'POST /api/compare/:id/clarify/answers': 'Answer clarifying questions and refine the classification',
+      'GET /api/compare/stats/summary': 'Get aggregated statistics, including accuracy and confidence calibration against verified labels',
+      'POST /api/batch': 'Queue a CSV or JSONL catalog for comparison (options in the query string)',
+      'GET /api/batch': 'List batch jobs',
+      'GET /api/batch/:id': 'Batch job status and per-row progress',
+      'GET /api/batch/:id/results': 'Download batch results (?format=csv|jsonl)',
+      'POST /api/duty': 'Calculate import duties and taxes for an HS code (engine: zonos | local)',
+      'POST /api/duty/shipment': 'Calculate per-line and consignment duties for a multi-item shipment',
+      'GET /api/duty/schedules': 'List bundled tariff schedules for the local duty engine',
+      'GET /api/duty/agreements': 'List free-trade agreements and preference schemes',
       'POST /api/parse-voice': 'Parse a voice command transcript using LLM fallback',
+      'GET /api/tax-rates/:country': 'Standard and reduced VAT/GST rates for a country (?hsCode= for the applicable rate)',
+      'GET /api/hs/sections': 'List HS sections',
+      'GET /api/hs/search?q=': 'Search HS nomenclature descriptions (bundled subset; see coverage on /api/hs/sections)',
+      'GET /api/hs/:code': 'Look up a chapter, heading or HS code with its section, chapter, heading and subheading',
+      'GET /api/hs/:code/children': 'List chapters, headings or subheadings below a section, chapter or heading',
+      'GET /api/fx/rates': 'Reference FX rates used for customs valuation and display currency',
+      'GET /api/fx/convert': 'Convert an amount (?amount=&from=&to=)',
+      'POST /api/fx/rates/refresh': 'Reload FX rates from FX_RATES_URL',
+      'GET /api/prompts': 'List classifier prompt versions and running prompt experiments',
+      'PUT /api/prompts/:provider/experiment': 'Split comparisons between prompt versions by weight',
+      'DELETE /api/prompts/:provider/experiment': 'Stop a prompt experiment',
     },
     documentation: {
       compareRequest: {
@@ -40,9 +73,18 @@ app.get('/api', (_req, res) => {
         originCountry: 'ISO 2-letter country code (e.g., US, CN)',
         shipToCountry: 'ISO 2-letter destination country (default: FR)',
         productValue: 'Product value for duty calculation',
-        currency: 'Currency code (default: EUR)',
-        providers: 'Array of providers to test: ["anthropic", "openai", "zonos"]',
+        currency: 'Currency of productValue (default: EUR); converted to the destination customs currency',
+        displayCurrency: 'Optional currency to also express duty totals in',
+        shippingCost: 'Optional international shipping cost (dutiable where the destination values CIF)',
+        insuranceCost: 'Optional insurance cost (dutiable where the destination values CIF)',
+        incoterm: 'Optional incoterm, e.g. DAP or DDP',
+        claimPreference: 'Claim a free-trade-agreement rate when origin qualifies (default true)',
+        providers: `Array of providers to test (default: all registered): ${JSON.stringify(getProviderNames())}`,
         calculateDuty: 'Whether to calculate duties for each classification',
+        dutyEngine: 'Duty engine: "zonos" (landed cost API, default) or "local" (bundled tariff schedules)',
+        promptVersions: 'Optional prompt version per provider, e.g. {"anthropic":"v1"}; overrides experiments',
+        models: 'Optional model settings per provider or adjudicator, e.g. {"openai":{"model":"gpt-4o-mini","temperature":0,"maxTokens":1024}}',
+        consensus: 'Optional: "vote" combines providers into one recommended code; "adjudicate" also asks an LLM to decide disagreements',
       },
     },
   });
@@ -52,6 +94,11 @@ app.get('/api', (_req, res) => {
 app.use('/api/compare', compareRouter);
 app.use('/api/duty', dutyRouter);
 app.use('/api/parse-voice', voiceRouter);
+app.use('/api/tax-rates', taxRatesRouter);
+app.use('/api/hs', hsRouter);
+app.use('/api/fx', fxRouter);
+app.use('/api/batch', batchRouter);
+app.use('/api/prompts', promptsRouter);
 
 // Error handling
 app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
@@ -59,9 +106,25 @@ app.use((err: Error, _req: express.Request, res: express.Response, _next: expres
   res.status(500).json({ error: 'Internal server error' });
 });
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`
+// Start server once storage is migrated and prompt experiments are loaded
+getComparisonRepository()
+  .then(async (repository) => {
+    console.log(`[Storage] Using ${repository.driver} repository`);
+    // A malformed PROMPT_EXPERIMENTS stops startup instead of failing every comparison
+    await loadPromptExperiments();
+    // Stale or bundled FX rates are still usable, so a failed refresh is not fatal
+    refreshRates().catch((error) => console.warn('[FX] Rate refresh failed:', error.message));
+    resumeBatchJobs().catch((error) => console.error('[Batch] Could not resume jobs:', error.message));
+    startServer();
+  })
+  .catch((error) => {
+    console.error('Failed to start:', error);
+    process.exit(1);
+  });
+
+function startServer() {
+  app.listen(PORT, () => {
+    console.log(`
 ╔═══════════════════════════════════════════════════════════╗
 ║                    DutySnap API v0.1.0                    ║
 ╠═══════════════════════════════════════════════════════════╣
@@ -70,18 +133,27 @@ app.listen(PORT, () => {
 ║  Endpoints:                                               ║
 ║    GET  /api              - API documentation             ║
 ║    POST /api/compare      - Run A/B comparison            ║
+║    POST /api/compare/stream - Comparison progress (SSE)   ║
 ║    GET  /api/compare      - List all results              ║
 ║    GET  /api/compare/:id  - Get specific result           ║
+║    PUT  /api/compare/:id/label - Attach verified HS code  ║
 ║    GET  /api/compare/stats/summary - Get statistics       ║
+║    POST /api/batch        - Batch CSV/JSONL comparison    ║
+║    GET  /api/batch/:id/results - Download batch results   ║
 ║    POST /api/duty         - Calculate duties/taxes        ║
+║    POST /api/duty/shipment - Multi-item shipment duty     ║
 ║    POST /api/parse-voice  - Parse voice command (LLM)    ║
+║    GET  /api/tax-rates/:country - VAT/GST rates           ║
+║    GET  /api/hs/:code     - HS nomenclature lookup        ║
+║    GET  /api/fx/rates     - FX reference rates            ║
 ║                                                           ║
 ║  Environment:                                             ║
 ║    ANTHROPIC_API_KEY: ${process.env.ANTHROPIC_API_KEY ? '✓ configured' : '✗ missing'}                      ║
 ║    OPENAI_API_KEY:    ${process.env.OPENAI_API_KEY ? '✓ configured' : '✗ missing'}                      ║
 ║    ZONOS_API_KEY:     ${process.env.ZONOS_API_KEY ? '✓ configured' : '✗ missing'}                      ║
 ╚═══════════════════════════════════════════════════════════╝
-  `);
-});
+    `);
+  });
+}
 
 export default app;
@@ -0,0 +1,3 @@
+export { createZonosMock } from './server.js';
+export { calculateLandedCost, classifyProducts } from './resolvers.js';
+export type { ClassificationInput, GraphqlError, LandedCostInput } from './resolvers.js';
@@ -0,0 +1,175 @@
+import { v4 as uuidv4 } from 'uuid';
+import { calculateShipmentLocally, findSchedule } from '../../services/duty/index.js';
+import { round2 } from '../../services/duty/shipment.js';
+import { getNomenclature } from '../../services/hs/index.js';
+
+export interface GraphqlError {
+  message: string;
+  path?: string[];
+}
+
+export interface ClassificationInput {
+  name?: string;
+  description?: string;
+  imageUrl?: string;
+  configuration?: { shipToCountries?: string[] };
+}
+
+interface Subheading {
+  code: string;
+  description: string;
+  tokens: Set<string>; // Heading and subheading words
+  own: Set<string>; // Subheading words only
+}
+
+const STOP_WORDS = new Set(['and', 'for', 'the', 'with', 'other', 'similar', 'articles', 'thereof', 'set', 'part']);
+
+/** Lowercase words of three letters or more, crudely singularized; hyphenated words stay whole */
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:-[a-z0-9]+)*/g) ?? [])
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+    .map((word) => (word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+// Subheadings read together with their heading text: "Of cotton" alone says little
+const SUBHEADINGS: Subheading[] = Object.entries(getNomenclature().headings).flatMap(([, heading]) =>
+  Object.entries(heading.subheadings ?? {}).map(([code, description]) => ({
+    code,
+    description: `${heading.description}: ${description}`,
+    tokens: new Set(tokenize(`${heading.description} ${description}`)),
+    own: new Set(tokenize(description)),
+  }))
+);
+
+// Words found in fewer subheadings say more about the product
+const WEIGHTS = new Map<string, number>();
+for (const subheading of SUBHEADINGS) {
+  for (const token of subheading.tokens) WEIGHTS.set(token, (WEIGHTS.get(token) ?? 0) + 1);
+}
+for (const [token, count] of WEIGHTS) WEIGHTS.set(token, Math.log(SUBHEADINGS.length / count) + 1);
+
+/**
+ * Stand-in for `classificationsCalculate`: the bundled subheading whose text best
+ * overlaps the product name and description. The last word of the name is taken as
+ * the head noun and counts double ("wireless headphones" are headphones); words only in
+ * the heading text count half, so the subheading that names the product wins. Confidence
+ * is the share of the product's known words that matched; images are ignored.
+ */
+export function classifyProducts(inputs: ClassificationInput[]) {
+  return inputs.map((input) => {
+    const head = tokenize(input.name ?? '').at(-1);
+    const words = [...new Set(tokenize(`${input.name ?? ''} ${input.description ?? ''}`))].filter((word) =>
+      WEIGHTS.has(word)
+    );
+    const weight = (word: string) => WEIGHTS.get(word)! * (word === head ? 2 : 1);
+    const possible = words.reduce((sum, word) => sum + weight(word), 0);
+
+    let best: { subheading: Subheading; score: number } | undefined;
+    for (const subheading of SUBHEADINGS) {
+      const score = words.reduce(
+        (sum, word) => sum + (subheading.own.has(word) ? weight(word) : subheading.tokens.has(word) ? weight(word) / 2 : 0),
+        0
+      );
+      if (score > 0 && (!best || score > best.score)) best = { subheading, score };
+    }
+    if (!best) return { id: `classification_${uuidv4()}`, hsCode: null, confidence: 0 };
+
+    return {
+      id: `classification_${uuidv4()}`,
+      hsCode: { code: best.subheading.code, description: { full: best.subheading.description } },
+      confidence: round2(Math.min(0.95, best.score / possible)),
+    };
+  });
+}
+
+export interface LandedCostInput {
+  parties: Array<{ type: string; location: { countryCode: string } }>;
+  items: Array<{
+    amount: number;
+    currencyCode: string;
+    quantity: number;
+    countryOfOrigin?: string;
+    hsCode?: string;
+    description?: string;
+    measurements?: Array<{ type: string; value: number; unitOfMeasure: string }>;
+  }>;
+  landedCostConfig?: { tariffRate?: string };
+}
+
+function itemWeightKg(item: LandedCostInput['items'][number]): number | undefined {
+  const weight = item.measurements?.find((m) => m.type === 'WEIGHT');
+  if (!weight) return undefined;
+  return weight.unitOfMeasure === 'POUND' ? weight.value * 0.45359237 : weight.value;
+}
+
+/**
+ * Stand-in for the landed cost workflow mutations, priced by the local duty engine.
+ * Mirrors the live API's failure modes:
+ * - shipments within one customs territory fail with "Domestic shipments are not allowed"
+ * - shipment rating fails when an item has no weight, alongside otherwise valid data
+ */
+export async function calculateLandedCost(input: LandedCostInput): Promise<{ data: Record<string, unknown>; errors: GraphqlError[] }> {
+  const origin = input.parties.find((p) => p.type === 'ORIGIN')?.location.countryCode;
+  const destination = input.parties.find((p) => p.type === 'DESTINATION')?.location.countryCode;
+  if (!origin || !destination) {
+    return { data: {}, errors: [{ message: 'ORIGIN and DESTINATION parties are required', path: ['partyCreateWorkflow'] }] };
+  }
+
+  const parties = input.parties.map((party) => ({ type: party.type, id: `party_${uuidv4()}` }));
+  const items = input.items.map((item, i) => ({ id: `item_${i + 1}`, amount: item.amount }));
+  const data: Record<string, unknown> = {
+    partyCreateWorkflow: parties,
+    itemCreateWorkflow: items,
+    cartonizeWorkflow: [{ id: `carton_${uuidv4()}`, type: 'PACKAGE' }],
+  };
+  const errors: GraphqlError[] = [];
+
+  const weights = input.items.map(itemWeightKg);
+  if (weights.some((weight) => weight === undefined)) {
+    data.shipmentRatingCalculateWorkflow = null;
+    errors.push({ message: 'Unable to rate shipment: every item needs a weight', path: ['shipmentRatingCalculateWorkflow'] });
+  } else {
+    const totalKg = weights.reduce<number>((sum, weight, i) => sum + weight! * input.items[i].quantity, 0);
+    // Flat stand-in rate; landed cost is unaffected
+    data.shipmentRatingCalculateWorkflow = [{ id: `shipment_rating_${uuidv4()}`, amount: round2(8 + 4 * totalKg) }];
+  }
+
+  const schedule = findSchedule(destination);
+  if (origin === destination || schedule?.destinations.includes(origin)) {
+    data.landedCostCalculateWorkflow = null;
+    errors.push({ message: 'Domestic shipments are not allowed', path: ['landedCostCalculateWorkflow'] });
+    return { data, errors };
+  }
+
+  const currency = input.items[0]?.currencyCode ?? 'USD';
+  const shipment = await calculateShipmentLocally(
+    input.items.map((item, i) => ({
+      hsCode: item.hsCode ?? '',
+      description: item.description,
+      quantity: item.quantity,
+      unitValue: item.amount,
+      originCountry: item.countryOfOrigin,
+      weightKg: weights[i],
+    })),
+    currency,
+    origin,
+    destination,
+    { claimPreference: input.landedCostConfig?.tariffRate !== 'ZONOS_MAXIMUM' }
+  );
+  if (shipment.error) {
+    data.landedCostCalculateWorkflow = null;
+    errors.push({ message: shipment.error, path: ['landedCostCalculateWorkflow'] });
+    return { data, errors };
+  }
+
+  const charge = (amount: number, note: string, itemId: string) => ({ amount, currency, note, item: { id: itemId } });
+  data.landedCostCalculateWorkflow = [
+    {
+      id: `landed_cost_${uuidv4()}`,
+      duties: shipment.lines.map((line, i) => charge(line.duties.amount, `Duty ${line.duties.rate}`, items[i].id)),
+      taxes: shipment.lines.map((line, i) => charge(line.taxes.amount, `Tax ${line.taxes.rate}`, items[i].id)),
+      fees: [],
+    },
+  ];
+  return { data, errors };
+}
@@ -0,0 +1,41 @@
+import express from 'express';
+import { calculateLandedCost, classifyProducts, type ClassificationInput, type LandedCostInput } from './resolvers.js';
+
+/**
+ * Offline stand-in for the Zonos GraphQL API. The query text is not parsed: the
+ * operation is recognised by the root field it selects, and answered from variables.
+ */
+export function createZonosMock() {
+  const app = express();
+  app.use(express.json({ limit: '5mb' }));
+
+  app.get('/health', (_req, res) => {
+    res.json({ status: 'ok', mock: 'zonos' });
+  });
+
+  app.post('/graphql', async (req, res) => {
+    if (!req.header('credentialToken')) {
+      res.status(401).json({ errors: [{ message: 'Missing credentialToken header' }] });
+      return;
+    }
+
+    const { query, variables } = (req.body ?? {}) as { query?: string; variables?: Record<string, unknown> };
+    try {
+      if (query?.includes('classificationsCalculate')) {
+        const input = (variables?.input ?? []) as ClassificationInput[];
+        res.json({ data: { classificationsCalculate: classifyProducts(input) } });
+      } else if (query?.includes('landedCostCalculateWorkflow')) {
+        const { data, errors } = await calculateLandedCost(variables as unknown as LandedCostInput);
+        res.json(errors.length > 0 ? { data, errors } : { data });
+      } else {
+        res.json({
+          errors: [{ message: 'The Zonos mock supports classificationsCalculate and the landed cost workflow only' }],
+        });
+      }
+    } catch (error) {
+      res.json({ errors: [{ message: error instanceof Error ? error.message : 'Unknown error' }] });
+    }
+  });
+
+  return app;
+}
@@ -0,0 +1,168 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  createBatchJob,
+  exportBatchResults,
+  getBatchJob,
+  listBatchJobs,
+  parseBatch,
+} from '../services/batch/index.js';
+import { getProviderNames } from '../services/classifiers/index.js';
+import type { BatchFormat } from '../types/batch.js';
+
+const router = Router();
+
+const CONTENT_TYPES: Record<string, BatchFormat> = {
+  'text/csv': 'csv',
+  'application/x-ndjson': 'jsonl',
+  'application/jsonl': 'jsonl',
+  'application/x-jsonlines': 'jsonl',
+};
+
+router.use(express.text({ type: Object.keys(CONTENT_TYPES).concat('text/plain'), limit: '10mb' }));
+
+const FormatSchema = z.enum(['csv', 'jsonl']);
+
+// Job options come from the query string so the body can be the raw file
+const BatchQuerySchema = z.object({
+  format: FormatSchema.optional(),
+  providers: z
+    .string()
+    .transform((list) => list.split(',').map((name) => name.trim()).filter(Boolean))
+    .pipe(
+      z.array(
+        z.string().refine((name) => getProviderNames().includes(name), {
+          message: 'Unknown classifier provider',
+        })
+      )
+    )
+    .optional(),
+  dutyEngine: z.enum(['zonos', 'local']).default('zonos'),
+  currency: z.string().length(3).toUpperCase().default('EUR'),
+  originCountry: z.string().length(2).toUpperCase().optional(),
+  shipToCountry: z.string().length(2).toUpperCase().default('FR'),
+  displayCurrency: z.string().length(3).toUpperCase().optional(),
+  concurrency: z.coerce.number().int().min(1).max(10).default(DEFAULT_BATCH_CONCURRENCY),
+});
+
+function detectFormat(req: Request, explicit?: BatchFormat): BatchFormat | undefined {
+  if (explicit) return explicit;
+  const type = req.headers['content-type']?.split(';')[0].trim().toLowerCase();
+  return type ? CONTENT_TYPES[type] : undefined;
+}
+
+/**
+ * POST /api/batch?shipToCountry=DE&concurrency=3
+ * Queue a catalog for comparison. Body is the raw CSV (text/csv) or JSONL
+ * (application/x-ndjson) file; pass ?format= when sending text/plain
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { format: explicitFormat, ...options } = BatchQuerySchema.parse(req.query);
+    const format = detectFormat(req, explicitFormat);
+    if (!format) {
+      res.status(415).json({
+        error: 'Unsupported upload',
+        message: 'Send text/csv or application/x-ndjson, or set ?format=csv|jsonl',
+      });
+      return;
+    }
+    if (typeof req.body !== 'string' || req.body.trim() === '') {
+      res.status(400).json({ error: 'Empty upload' });
+      return;
+    }
+
+    const { rows, errors } = parseBatch(req.body, format);
+    if (errors.length > 0) {
+      res.status(400).json({ error: 'Validation error', details: errors });
+      return;
+    }
+
+    const job = await createBatchJob(rows, format, options);
+    const { items: _items, ...summary } = job;
+    res.status(202).location(`${req.baseUrl}/${job.id}`).json(summary);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+      return;
+    }
+    res.status(400).json({
+      error: 'Invalid batch',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/batch
+ * List batch jobs with their progress
+ */
+router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const jobs = await listBatchJobs();
+    res.json({ jobs, count: jobs.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/batch/:id
+ * Job status, progress and per-row status
+ */
+router.get('/:id', async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+  try {
+    const job = await getBatchJob(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: 'Batch job not found' });
+      return;
+    }
+    res.json(job);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/batch/:id/results?format=csv|jsonl
+ * Download results once the job has finished (defaults to the upload format)
+ */
+router.get('/:id/results', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const job = await getBatchJob(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: 'Batch job not found' });
+      return;
+    }
+    if (job.status === 'queued' || job.status === 'running') {
+      res.status(409).json({ error: 'Batch job has not finished', status: job.status, progress: job.progress });
+      return;
+    }
+
+    const format = FormatSchema.default(job.format).parse(req.query.format);
+    const body = await exportBatchResults(job, format);
+    res
+      .type(format === 'csv' ? 'text/csv' : 'application/x-ndjson')
+      .attachment(`batch-${job.id}.${format}`)
+      .send(body);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+      return;
+    }
+    console.error('Batch export error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
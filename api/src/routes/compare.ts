@@ -1,14 +1,29 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import {
   runComparison,
   getComparisonResult,
   getAllComparisonResults,
   getComparisonStats,
+  labelComparison,
 } from '../services/comparison.js';
+import { getProviderNames } from '../services/classifiers/index.js';
+import { getPrompt } from '../services/prompts/index.js';
+import { answerClarification, startClarification, unknownQuestionIds } from '../services/clarification/index.js';
+import { CONSENSUS_MODES, GROUND_TRUTH_SOURCES, INCOTERMS } from '../types/classification.js';
+import { MODEL_ROLES } from '../types/models.js';
+import { HsCodeSchema } from './schemas.js';
 
 const router = Router();
 
+const ModelOverrideSchema = z
+  .object({
+    model: z.string().regex(/^[\w.:/-]+$/, 'Invalid model id').optional(),
+    temperature: z.number().min(0).max(2).optional(),
+    maxTokens: z.number().int().positive().max(8192).optional(),
+  })
+  .strict();
+
 // Request validation schema
 const ComparisonRequestSchema = z.object({
   imageBase64: z.string().optional(),
@@ -20,14 +35,59 @@ const ComparisonRequestSchema = z.object({
   productValue: z.number().positive().optional(),
   currency: z.string().length(3).default('EUR'),
   providers: z
-    .array(z.enum(['anthropic', 'openai', 'zonos']))
-    .default(['anthropic', 'openai', 'zonos']),
+    .array(
+      z.string().refine((name) => getProviderNames().includes(name), {
+        message: 'Unknown classifier provider',
+      })
+    )
+    .optional(),
   calculateDuty: z.boolean().default(false),
+  dutyEngine: z.enum(['zonos', 'local']).default('zonos'),
+  displayCurrency: z.string().length(3).toUpperCase().optional(),
+  shippingCost: z.number().nonnegative().optional(),
+  insuranceCost: z.number().nonnegative().optional(),
+  incoterm: z.enum(INCOTERMS).optional(),
+  claimPreference: z.boolean().default(true),
+  consensus: z.enum(CONSENSUS_MODES).optional(),
+  promptVersions: z
+    .record(z.string(), z.string())
+    .superRefine((versions, ctx) => {
+      for (const [provider, version] of Object.entries(versions)) {
+        if (!getPrompt(provider, version)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [provider], message: `Unknown prompt version ${provider}@${version}` });
+        }
+      }
+    })
+    .optional(),
+  models: z.record(z.enum(MODEL_ROLES), ModelOverrideSchema).optional(),
 }).refine(
   (data) => data.imageBase64 || data.imageUrl || data.productName || data.productDescription,
   { message: 'At least one of imageBase64, imageUrl, productName, or productDescription is required' }
 );
 
+const GroundTruthSchema = z.object({
+  hsCode: HsCodeSchema,
+  source: z.enum(GROUND_TRUTH_SOURCES),
+  reference: z.string().min(1).optional(),
+  verifiedBy: z.string().min(1).optional(),
+  note: z.string().optional(),
+}).refine(
+  (data) => data.source !== 'binding_ruling' || data.reference,
+  { message: 'A binding ruling label requires the ruling reference', path: ['reference'] }
+);
+
+const ClarificationAnswersSchema = z.object({
+  answers: z
+    .array(
+      z.object({
+        questionId: z.string().min(1),
+        answer: z.string().trim().min(1),
+        source: z.enum(['tap', 'voice', 'text']).optional(),
+      })
+    )
+    .min(1),
+});
+
 /**
  * POST /api/compare
  * Run A/B comparison between AI providers for HS code classification
@@ -53,35 +113,195 @@ router.post('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/compare/stream
+ * Same comparison as POST /api/compare, streamed as Server-Sent Events:
+ * started, classification (per provider), value, duty (per provider), consensus (when
+ * requested), then result or error
+ */
+router.post('/stream', async (req: Request, res: Response) => {
+  const parsed = ComparisonRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: parsed.error.errors,
+    });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  // The comparison keeps running (and is stored) if the client goes away
+  let open = true;
+  res.on('close', () => {
+    open = false;
+  });
+  const send = (event: string, data: unknown) => {
+    if (open) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    await runComparison(parsed.data, (event) => send(event.type, event));
+  } catch (error) {
+    console.error('Comparison stream error:', error);
+    send('error', {
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+  res.end();
+});
+
 /**
  * GET /api/compare/stats/summary
  * Get aggregated statistics for all comparisons
  */
-router.get('/stats/summary', (_req: Request, res: Response) => {
-  const stats = getComparisonStats();
-  res.json(stats);
+router.get('/stats/summary', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const stats = await getComparisonStats();
+    res.json(stats);
+  } catch (error) {
+    next(error);
+  }
 });
 
 /**
  * GET /api/compare
  * Get all comparison results
  */
-router.get('/', (_req: Request, res: Response) => {
-  const results = getAllComparisonResults();
-  res.json({ results, count: results.length });
+router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const results = await getAllComparisonResults();
+    res.json({ results, count: results.length });
+  } catch (error) {
+    next(error);
+  }
 });
 
 /**
  * GET /api/compare/:id
  * Get a specific comparison result by ID
  */
-router.get('/:id', (req: Request<{ id: string }>, res: Response) => {
-  const result = getComparisonResult(req.params.id);
-  if (!result) {
-    res.status(404).json({ error: 'Comparison not found' });
+router.get('/:id', async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+  try {
+    const result = await getComparisonResult(req.params.id);
+    if (!result) {
+      res.status(404).json({ error: 'Comparison not found' });
+      return;
+    }
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/compare/:id/label
+ * Attach a verified HS code (broker, binding ruling, …) to a stored comparison
+ */
+router.put('/:id/label', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const label = GroundTruthSchema.parse(req.body);
+    const result = await labelComparison(req.params.id, label);
+    if (!result) {
+      res.status(404).json({ error: 'Comparison not found' });
+      return;
+    }
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+      return;
+    }
+    console.error('Label error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/compare/:id/clarify
+ * Start (or restart) a clarification session: the classifier may ask what the code hinges on
+ */
+router.post('/:id/clarify', async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+  try {
+    const result = await getComparisonResult(req.params.id);
+    if (!result) {
+      res.status(404).json({ error: 'Comparison not found' });
+      return;
+    }
+    res.json(await startClarification(result));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/compare/:id/clarify
+ * The comparison's clarification session
+ */
+router.get('/:id/clarify', async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+  try {
+    const result = await getComparisonResult(req.params.id);
+    if (!result?.clarification) {
+      res.status(404).json({ error: result ? 'No clarification session' : 'Comparison not found' });
+      return;
+    }
+    res.json(result.clarification);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/compare/:id/clarify/answers
+ * Answer the current questions (tapped, spoken or typed) and refine the classification.
+ * A failed round answers 502 and saves nothing, so the same answers can be sent again.
+ */
+router.post('/:id/clarify/answers', async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+  const parsed = ClarificationAnswersSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Validation error', details: parsed.error.errors });
     return;
   }
-  res.json(result);
+  const { answers } = parsed.data;
+  try {
+    const result = await getComparisonResult(req.params.id);
+    if (!result?.clarification) {
+      res.status(404).json({ error: result ? 'No clarification session' : 'Comparison not found' });
+      return;
+    }
+    if (result.clarification.status !== 'awaiting_answers') {
+      res.status(409).json({ error: 'Clarification session is not awaiting answers', status: result.clarification.status });
+      return;
+    }
+    const unknown = unknownQuestionIds(result.clarification, answers);
+    if (unknown.length > 0) {
+      res.status(400).json({ error: 'Validation error', details: unknown.map((id) => `Unknown question ${id}`) });
+      return;
+    }
+    const { session, round } = await answerClarification(result, answers);
+    if (round.classification.error) {
+      res.status(502).json({
+        error: 'Clarification round failed',
+        message: round.classification.error,
+        session,
+      });
+      return;
+    }
+    res.json(session);
+  } catch (error) {
+    next(error);
+  }
 });
 
 export default router;
@@ -1,15 +1,23 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import { calculateDutyWithZonos } from '../services/classifiers/index.js';
+import { calculateDuty, calculateShipmentDuty, listAgreements, listSchedules } from '../services/duty/index.js';
+import { INCOTERMS } from '../types/classification.js';
+import { HsCodeSchema } from './schemas.js';
 
 const router = Router();
 
 const DutyRequestSchema = z.object({
-  hsCode: z.string().min(6, 'HS code must be at least 6 digits'),
+  hsCode: HsCodeSchema,
   productValue: z.number().positive('Product value must be positive'),
-  currency: z.string().length(3).default('EUR'),
+  currency: z.string().length(3).toUpperCase().default('EUR'),
   originCountry: z.string().length(2).default('US'),
   shipToCountry: z.string().length(2).default('FR'),
+  engine: z.enum(['zonos', 'local']).default('zonos'),
+  displayCurrency: z.string().length(3).toUpperCase().optional(),
+  shippingCost: z.number().nonnegative().optional(),
+  insuranceCost: z.number().nonnegative().optional(),
+  incoterm: z.enum(INCOTERMS).optional(),
+  claimPreference: z.boolean().default(true),
 });
 
 /**
@@ -20,12 +28,20 @@ router.post('/', async (req: Request, res: Response) => {
   try {
     const validated = DutyRequestSchema.parse(req.body);
 
-    const result = await calculateDutyWithZonos(
+    const result = await calculateDuty(
+      validated.engine,
       validated.hsCode,
       validated.productValue,
       validated.currency,
       validated.originCountry,
-      validated.shipToCountry
+      validated.shipToCountry,
+      {
+        displayCurrency: validated.displayCurrency,
+        shippingCost: validated.shippingCost,
+        insuranceCost: validated.insuranceCost,
+        incoterm: validated.incoterm,
+        claimPreference: validated.claimPreference,
+      }
     );
 
     if (result.error) {
@@ -54,4 +70,91 @@ router.post('/', async (req: Request, res: Response) => {
   }
 });
 
+const ShipmentLineItemSchema = z.object({
+  hsCode: HsCodeSchema,
+  description: z.string().optional(),
+  quantity: z.number().int().positive().default(1),
+  unitValue: z.number().positive('Unit value must be positive'),
+  originCountry: z.string().length(2).optional(),
+  weightKg: z.number().positive().optional(),
+});
+
+const ShipmentRequestSchema = z.object({
+  items: z.array(ShipmentLineItemSchema).min(1, 'At least one line item is required'),
+  currency: z.string().length(3).toUpperCase().default('EUR'),
+  originCountry: z.string().length(2).default('US'),
+  shipToCountry: z.string().length(2).default('FR'),
+  engine: z.enum(['zonos', 'local']).default('zonos'),
+  displayCurrency: z.string().length(3).toUpperCase().optional(),
+  shippingCost: z.number().nonnegative().optional(),
+  insuranceCost: z.number().nonnegative().optional(),
+  incoterm: z.enum(INCOTERMS).optional(),
+  claimPreference: z.boolean().default(true),
+});
+
+/**
+ * POST /api/duty/shipment
+ * Calculate per-line and consignment duties, taxes and fees for a multi-item shipment
+ */
+router.post('/shipment', async (req: Request, res: Response) => {
+  try {
+    const validated = ShipmentRequestSchema.parse(req.body);
+
+    const result = await calculateShipmentDuty(
+      validated.engine,
+      validated.items,
+      validated.currency,
+      validated.originCountry,
+      validated.shipToCountry,
+      {
+        displayCurrency: validated.displayCurrency,
+        shippingCost: validated.shippingCost,
+        insuranceCost: validated.insuranceCost,
+        incoterm: validated.incoterm,
+        claimPreference: validated.claimPreference,
+      }
+    );
+
+    if (result.error) {
+      res.status(502).json({
+        error: 'Shipment duty calculation failed',
+        message: result.error,
+        result,
+      });
+      return;
+    }
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        details: error.errors,
+      });
+      return;
+    }
+    console.error('Shipment duty calculation error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/duty/schedules
+ * List the bundled tariff schedules used by the local duty engine
+ */
+router.get('/schedules', (_req: Request, res: Response) => {
+  res.json({ schedules: listSchedules() });
+});
+
+/**
+ * GET /api/duty/agreements
+ * List the free-trade agreements and preference schemes applied on top of MFN rates
+ */
+router.get('/agreements', (_req: Request, res: Response) => {
+  res.json({ agreements: listAgreements() });
+});
+
 export default router;
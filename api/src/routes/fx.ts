@@ -0,0 +1,58 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { convert, getRateTable, refreshRates } from '../services/fx/index.js';
+
+const router = Router();
+
+const ConvertQuerySchema = z.object({
+  amount: z.coerce.number().nonnegative(),
+  from: z.string().length(3).toUpperCase(),
+  to: z.string().length(3).toUpperCase(),
+});
+
+/**
+ * GET /api/fx/rates
+ * Reference rate table currently used for conversions
+ */
+router.get('/rates', (_req: Request, res: Response) => {
+  res.json(getRateTable());
+});
+
+/**
+ * POST /api/fx/rates/refresh
+ * Reload rates from FX_RATES_URL
+ */
+router.post('/rates/refresh', async (_req: Request, res: Response) => {
+  try {
+    const table = await refreshRates();
+    res.json({ source: table.source, date: table.date, count: Object.keys(table.rates).length });
+  } catch (error) {
+    console.error('FX refresh error:', error);
+    res.status(502).json({
+      error: 'FX refresh failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/fx/convert?amount=100&from=EUR&to=USD
+ * Convert an amount using the stored reference rates
+ */
+router.get('/convert', (req: Request, res: Response) => {
+  try {
+    const { amount, from, to } = ConvertQuerySchema.parse(req.query);
+    res.json(convert(amount, from, to));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+    res.status(400).json({
+      error: 'Conversion failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
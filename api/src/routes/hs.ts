@@ -0,0 +1,76 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  getNomenclature,
+  listChildren,
+  listSections,
+  lookupHsCode,
+  searchNomenclature,
+  validateHsCode,
+} from '../services/hs/index.js';
+
+const router = Router();
+
+const SearchQuerySchema = z.object({
+  q: z.string().min(2, 'Search query must be at least 2 characters'),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+/**
+ * GET /api/hs/sections
+ * The 21 HS sections, each grouping a range of chapters
+ */
+router.get('/sections', (_req: Request, res: Response) => {
+  const { version, description } = getNomenclature();
+  res.json({ version, coverage: description, sections: listSections() });
+});
+
+/**
+ * GET /api/hs/search?q=&limit=
+ * Full-text search over chapter, heading and subheading descriptions (or code prefixes)
+ */
+router.get('/search', (req: Request, res: Response) => {
+  try {
+    const { q, limit } = SearchQuerySchema.parse(req.query);
+    res.json({ query: q, results: searchNomenclature(q, limit) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+    console.error('HS search error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/hs/:code/children
+ * Chapters of a section (I–XXI), headings of a chapter or subheadings of a heading
+ */
+router.get('/:code/children', (req: Request<{ code: string }>, res: Response) => {
+  const children = listChildren(req.params.code);
+  if (!children) {
+    res.status(404).json({ error: `No section, chapter or heading ${req.params.code}` });
+    return;
+  }
+  res.json({ parent: req.params.code, children });
+});
+
+/**
+ * GET /api/hs/:code
+ * A chapter, heading or code with its section, chapter, heading and subheading texts
+ */
+router.get('/:code', (req: Request<{ code: string }>, res: Response) => {
+  const lookup = lookupHsCode(req.params.code);
+  if (!lookup) {
+    const validation = validateHsCode(req.params.code);
+    res.status(404).json({ error: `Unknown HS code ${req.params.code}`, details: validation.errors });
+    return;
+  }
+  res.json(lookup);
+});
+
+export default router;
@@ -0,0 +1,60 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { getPrompt, getPromptExperiments, listPrompts, setPromptExperiment } from '../services/prompts/index.js';
+
+const router = Router();
+
+const ExperimentSchema = z
+  .record(z.string(), z.number().nonnegative())
+  .refine((weights) => Object.values(weights).some((weight) => weight > 0), {
+    message: 'At least one version needs a positive weight',
+  });
+
+/**
+ * GET /api/prompts
+ * Registered prompt versions per provider, and running experiments
+ */
+router.get('/', (_req: Request, res: Response) => {
+  res.json({ prompts: listPrompts(), experiments: getPromptExperiments() });
+});
+
+/**
+ * PUT /api/prompts/:provider/experiment
+ * Split new comparisons between prompt versions by weight, e.g. { "v1": 80, "v2": 20 }
+ */
+router.put('/:provider/experiment', async (req: Request<{ provider: string }>, res: Response, next: NextFunction) => {
+  const parsed = ExperimentSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Validation error', details: parsed.error.errors });
+    return;
+  }
+  const unknown = Object.keys(parsed.data).filter((version) => !getPrompt(req.params.provider, version));
+  if (unknown.length > 0) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: unknown.map((version) => `Unknown prompt version ${req.params.provider}@${version}`),
+    });
+    return;
+  }
+  try {
+    await setPromptExperiment(req.params.provider, parsed.data);
+    res.json({ provider: req.params.provider, experiment: parsed.data });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/prompts/:provider/experiment
+ * Stop the experiment; the provider goes back to its default prompt
+ */
+router.delete('/:provider/experiment', async (req: Request<{ provider: string }>, res: Response, next: NextFunction) => {
+  try {
+    await setPromptExperiment(req.params.provider, undefined);
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { validateHsCode } from '../services/hs/index.js';
+
+// Rejects codes that do not exist in the nomenclature before any engine sees them
+export const HsCodeSchema = z.string().transform((raw, ctx) => {
+  const validation = validateHsCode(raw);
+  if (!validation.valid) {
+    for (const message of validation.errors) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+    return z.NEVER;
+  }
+  return validation.code;
+});
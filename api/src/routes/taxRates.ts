@@ -0,0 +1,53 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { getCountryTaxRates, getTaxRateTable, resolveTaxRate } from '../services/tax/index.js';
+
+const router = Router();
+
+const TaxRateQuerySchema = z.object({
+  hsCode: z.string().min(2).optional(),
+});
+
+/**
+ * GET /api/tax-rates/:country
+ * Standard and reduced VAT/GST rates for a destination country.
+ * Pass ?hsCode= to also get the rate that applies to that code.
+ */
+router.get('/:country', (req: Request<{ country: string }>, res: Response) => {
+  try {
+    const { hsCode } = TaxRateQuerySchema.parse(req.query);
+    const countryCode = req.params.country.toUpperCase();
+    const rates = getCountryTaxRates(countryCode);
+    if (!rates) {
+      res.status(404).json({ error: `No tax rates for country ${countryCode}` });
+      return;
+    }
+
+    const table = getTaxRateTable();
+    res.json({
+      countryCode,
+      ...rates,
+      reduced: Object.entries(rates.reduced).map(([category, rate]) => ({
+        category,
+        rate,
+        description: table.categories[category]?.description,
+        hsPrefixes: table.categories[category]?.hsPrefixes,
+      })),
+      ...(hsCode && { applicable: resolveTaxRate(countryCode, hsCode) }),
+      version: table.version,
+      validFrom: table.validFrom,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+    console.error('Tax rate lookup error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
@@ -1,6 +1,14 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import Anthropic from '@anthropic-ai/sdk';
+import Anthropic, { type ClientOptions } from '@anthropic-ai/sdk';
+import {
+  VOICE_COMMAND_OUTPUT,
+  anthropicStructured,
+  configuredModel,
+  describeOutputError,
+  modelParams,
+} from '../services/llm/index.js';
+import { providerApiKey, sdkTransport } from '../services/recording/index.js';
 
 const router = Router();
 
@@ -9,7 +17,7 @@ const ParseVoiceSchema = z.object({
 });
 
 const SYSTEM_PROMPT = `You are a voice command parser for a customs duty calculator app called DutySnap.
-Given a spoken transcript, extract a structured command. Return ONLY valid JSON matching one of these formats:
+Given a spoken transcript, extract a structured command and record it with the record_command tool. The commands look like this:
 
 Capture command:
 {"type":"capture","confidence":0.9}
@@ -26,7 +34,7 @@ Product info (name and/or value):
 Navigation:
 {"type":"navigation","confidence":0.9,"destination":"back|history|home"}
 
-If the transcript does not match any command, return:
+If the transcript does not match any command, record:
 {"type":null,"confidence":0}
 
 Use ISO 2-letter country codes. Currency defaults to EUR if not specified. Confidence should be 0.0-1.0 based on how clear the intent is.`;
@@ -39,31 +47,40 @@ router.post('/', async (req: Request, res: Response) => {
   try {
     const { transcript } = ParseVoiceSchema.parse(req.body);
 
-    const apiKey = process.env.ANTHROPIC_API_KEY;
+    const apiKey = providerApiKey('ANTHROPIC_API_KEY');
     if (!apiKey) {
       res.status(500).json({ error: 'ANTHROPIC_API_KEY not configured' });
       return;
     }
 
-    const client = new Anthropic({ apiKey });
-
-    const message = await client.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 256,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: 'user', content: transcript }],
-    });
-
-    const textBlock = message.content.find((b) => b.type === 'text');
-    if (!textBlock || textBlock.type !== 'text') {
-      res.status(502).json({ error: 'No text response from LLM' });
+    const client = new Anthropic({ apiKey, ...sdkTransport<ClientOptions['fetch']>('anthropic') });
+    const settings = configuredModel('voice');
+
+    const result = await anthropicStructured(
+      client,
+      {
+        ...modelParams(settings),
+        system: SYSTEM_PROMPT,
+        messages: [{ role: 'user', content: transcript }],
+      },
+      VOICE_COMMAND_OUTPUT
+    );
+
+    if (!result.ok) {
+      res.status(502).json({
+        error: describeOutputError(result.error),
+        outputError: result.error,
+        model: settings.model,
+        usage: result.usage,
+      });
       return;
     }
 
-    const parsed = JSON.parse(textBlock.text);
     res.json({
-      ...parsed,
+      ...result.data,
       rawTranscript: transcript,
+      model: settings.model,
+      usage: result.usage,
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -0,0 +1,97 @@
+import type { BatchFormat, BatchItem, BatchJob } from '../../types/batch.js';
+import type { ComparisonResult, ProviderName } from '../../types/classification.js';
+import { getProviderNames } from '../classifiers/index.js';
+import { getComparisonResult } from '../comparison.js';
+
+const ROW_COLUMNS = [
+  'sku',
+  'productName',
+  'productDescription',
+  'imageUrl',
+  'productValue',
+  'currency',
+  'originCountry',
+  'shipToCountry',
+] as const;
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Providers in registration order, then any that only appear in stored results */
+function providerColumns(results: Array<ComparisonResult | undefined>): ProviderName[] {
+  const seen = new Set(results.flatMap((result) => (result ? Object.keys(result.classifications) : [])));
+  const registered = getProviderNames().filter((name) => seen.has(name));
+  return [...registered, ...[...seen].filter((name) => !registered.includes(name))];
+}
+
+function toCsv(items: BatchItem[], results: Array<ComparisonResult | undefined>): string {
+  const providers = providerColumns(results);
+  const header = [
+    'row',
+    ...ROW_COLUMNS,
+    'status',
+    'error',
+    'comparisonId',
+    ...providers.flatMap((p) => [`${p}_hsCode`, `${p}_description`, `${p}_confidence`, `${p}_error`, `${p}_landedCost`]),
+    'dutyCurrency',
+    'winner',
+    'notes',
+  ];
+
+  const lines = items.map((item, i) => {
+    const result = results[i];
+    return [
+      item.index + 1,
+      ...ROW_COLUMNS.map((column) => item.row[column]),
+      item.status,
+      item.error,
+      item.comparisonId,
+      ...providers.flatMap((p) => {
+        const classification = result?.classifications[p];
+        return [
+          classification?.hsCode,
+          classification?.description,
+          classification?.confidence,
+          classification?.error,
+          result?.dutyCalculations?.[p]?.totalLandedCost,
+        ];
+      }),
+      result?.customsValue?.currency,
+      result?.analysis.winner,
+      result?.analysis.notes,
+    ];
+  });
+
+  return [header, ...lines].map((fields) => fields.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function toJsonl(items: BatchItem[], results: Array<ComparisonResult | undefined>): string {
+  return items
+    .map((item, i) =>
+      JSON.stringify({
+        row: item.index + 1,
+        input: item.row,
+        status: item.status,
+        error: item.error,
+        providerErrors: item.providerErrors,
+        comparisonId: item.comparisonId,
+        result: results[i],
+      })
+    )
+    .map((line) => line + '\n')
+    .join('');
+}
+
+/**
+ * One line per uploaded row, in upload order, joined with its stored comparison.
+ */
+export async function exportBatchResults(job: BatchJob, format: BatchFormat): Promise<string> {
+  const results: Array<ComparisonResult | undefined> = [];
+  for (const item of job.items) {
+    results.push(item.comparisonId ? await getComparisonResult(item.comparisonId) : undefined);
+  }
+  return format === 'csv' ? toCsv(job.items, results) : toJsonl(job.items, results);
+}
@@ -0,0 +1,11 @@
+export { parseBatch, parseCsv } from './parse.js';
+export type { BatchRowError, ParsedBatch } from './parse.js';
+export {
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_ROWS,
+  createBatchJob,
+  getBatchJob,
+  listBatchJobs,
+  resumeBatchJobs,
+} from './jobs.js';
+export { exportBatchResults } from './export.js';
@@ -0,0 +1,170 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { BatchFormat, BatchItem, BatchJob, BatchJobSummary, BatchOptions, BatchRow } from '../../types/batch.js';
+import type { ComparisonResult, ProviderRecord } from '../../types/classification.js';
+import { runComparison } from '../comparison.js';
+import { getComparisonRepository } from '../storage/index.js';
+
+export const DEFAULT_BATCH_CONCURRENCY = Number(process.env.BATCH_CONCURRENCY) || 3;
+export const MAX_BATCH_ROWS = Number(process.env.BATCH_MAX_ROWS) || 1000;
+
+// Jobs run one at a time so two large uploads don't multiply provider load
+let queue: Promise<void> = Promise.resolve();
+
+// Saves are chained so the stored job never goes back to an older state
+let saves: Promise<void> = Promise.resolve();
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/** Store the job's status and progress, and the given items, as they are now */
+function saveJob(job: BatchJob, items: BatchItem[] = []): Promise<void> {
+  const { items: _items, ...summary } = job;
+  const snapshot: BatchJobSummary = { ...summary, progress: { ...summary.progress } };
+  const changed = items.map((item) => ({ ...item }));
+  saves = saves
+    .then(async () => {
+      const repository = await getComparisonRepository();
+      await repository.saveBatchJob(snapshot);
+      if (changed.length > 0) await repository.saveBatchItems(job.id, changed);
+    })
+    .catch((error) => console.error(`[Batch] Could not save ${job.id}:`, errorMessage(error)));
+  return saves;
+}
+
+/** Each provider's error, or undefined when at least one provider classified the row */
+function providerErrors(result: ComparisonResult): ProviderRecord<string> | undefined {
+  const errors: ProviderRecord<string> = {};
+  for (const [provider, classification] of Object.entries(result.classifications)) {
+    if (!classification.error) return undefined;
+    errors[provider] = classification.error;
+  }
+  return Object.keys(errors).length > 0 ? errors : undefined;
+}
+
+async function runItem(job: BatchJob, item: BatchItem): Promise<void> {
+  const { sku: _sku, ...row } = item.row;
+  const { concurrency: _concurrency, ...options } = job.options;
+  item.status = 'running';
+  void saveJob(job, [item]);
+
+  try {
+    const result = await runComparison({
+      ...options,
+      ...row,
+      currency: row.currency || options.currency,
+      originCountry: row.originCountry || options.originCountry,
+      shipToCountry: row.shipToCountry || options.shipToCountry,
+    });
+    item.comparisonId = result.id;
+    const errors = providerErrors(result);
+    if (errors) {
+      item.status = 'failed';
+      item.error = 'Every provider failed to classify the row';
+      item.providerErrors = errors;
+      job.progress.failed++;
+      console.error(`[Batch] ${job.id} row ${item.index + 1} failed:`, item.error);
+    } else {
+      item.status = 'completed';
+      job.progress.completed++;
+    }
+  } catch (error) {
+    item.status = 'failed';
+    item.error = errorMessage(error);
+    job.progress.failed++;
+    console.error(`[Batch] ${job.id} row ${item.index + 1} failed:`, item.error);
+  }
+  void saveJob(job, [item]);
+}
+
+async function runJob(job: BatchJob): Promise<void> {
+  // A job resumed after a restart keeps its first start time and finished rows
+  const pending = job.items.filter((item) => item.status === 'pending');
+  job.status = 'running';
+  job.startedAt ??= new Date().toISOString();
+  void saveJob(job);
+  console.log(`[Batch] Starting ${job.id}: ${pending.length} rows, concurrency ${job.options.concurrency}`);
+
+  try {
+    // Each worker takes the next pending row until none are left
+    let next = 0;
+    const worker = async () => {
+      while (next < pending.length) {
+        await runItem(job, pending[next++]);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(job.options.concurrency, pending.length) }, worker));
+    job.status = 'completed';
+  } catch (error) {
+    job.status = 'failed';
+    job.error = errorMessage(error);
+  }
+
+  job.completedAt = new Date().toISOString();
+  await saveJob(job);
+  console.log(
+    `[Batch] ${job.id} ${job.status}: ${job.progress.completed} completed, ${job.progress.failed} failed`
+  );
+}
+
+/**
+ * Store and queue a batch of products for comparison. Resolves once the job is
+ * stored; poll the job for progress.
+ */
+export async function createBatchJob(rows: BatchRow[], format: BatchFormat, options: BatchOptions): Promise<BatchJob> {
+  if (rows.length === 0) {
+    throw new Error('Batch has no rows');
+  }
+  if (rows.length > MAX_BATCH_ROWS) {
+    throw new Error(`Batch has ${rows.length} rows; the limit is ${MAX_BATCH_ROWS}`);
+  }
+
+  const job: BatchJob = {
+    id: uuidv4(),
+    status: 'queued',
+    format,
+    options,
+    createdAt: new Date().toISOString(),
+    progress: { total: rows.length, completed: 0, failed: 0 },
+    items: rows.map((row, index) => ({ index, row, status: 'pending' })),
+  };
+  const { items, ...summary } = job;
+  const repository = await getComparisonRepository();
+  await repository.saveBatchJob({ ...summary, progress: { ...summary.progress } });
+  await repository.saveBatchItems(job.id, items.map((item) => ({ ...item })));
+  queue = queue.then(() => runJob(job));
+  return job;
+}
+
+/**
+ * Queue again the jobs a restart interrupted. Rows that were running start over;
+ * finished rows keep their comparisons. Returns how many jobs were resumed.
+ */
+export async function resumeBatchJobs(): Promise<number> {
+  const repository = await getComparisonRepository();
+  const interrupted = (await repository.listBatchJobs())
+    .filter((job) => job.status === 'queued' || job.status === 'running')
+    .reverse();
+
+  for (const summary of interrupted) {
+    const job = await repository.getBatchJob(summary.id);
+    if (!job) continue;
+    for (const item of job.items) {
+      if (item.status === 'running') item.status = 'pending';
+    }
+    console.log(`[Batch] Resuming ${job.id}`);
+    queue = queue.then(() => runJob(job));
+  }
+  return interrupted.length;
+}
+
+export async function getBatchJob(id: string): Promise<BatchJob | undefined> {
+  const repository = await getComparisonRepository();
+  return repository.getBatchJob(id);
+}
+
+/** All jobs, newest first, without their items */
+export async function listBatchJobs(): Promise<BatchJobSummary[]> {
+  const repository = await getComparisonRepository();
+  return repository.listBatchJobs();
+}
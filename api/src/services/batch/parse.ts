@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import type { BatchFormat, BatchRow } from '../../types/batch.js';
+
+export interface BatchRowError {
+  row: number; // 1-based, not counting the CSV header
+  message: string;
+}
+
+export interface ParsedBatch {
+  rows: BatchRow[];
+  errors: BatchRowError[];
+}
+
+// Header names are matched case-insensitively, ignoring spaces, dashes and underscores
+const COLUMN_ALIASES: Record<string, keyof BatchRow> = {
+  sku: 'sku', id: 'sku', reference: 'sku',
+  productname: 'productName', name: 'productName', product: 'productName',
+  productdescription: 'productDescription', description: 'productDescription',
+  imageurl: 'imageUrl', image: 'imageUrl',
+  productvalue: 'productValue', value: 'productValue', price: 'productValue',
+  currency: 'currency',
+  origincountry: 'originCountry', origin: 'originCountry', countryoforigin: 'originCountry',
+  shiptocountry: 'shipToCountry', shipto: 'shipToCountry', destination: 'shipToCountry',
+};
+
+const BatchRowSchema = z
+  .object({
+    sku: z.coerce.string().optional(),
+    productName: z.string().optional(),
+    productDescription: z.string().optional(),
+    imageUrl: z.string().url().optional(),
+    productValue: z.coerce.number().positive().optional(),
+    currency: z.string().length(3).toUpperCase().optional(),
+    originCountry: z.string().length(2).toUpperCase().optional(),
+    shipToCountry: z.string().length(2).toUpperCase().optional(),
+  })
+  .refine((row) => row.productName || row.productDescription || row.imageUrl, {
+    message: 'Each row needs a productName, productDescription or imageUrl',
+  });
+
+function canonicalColumn(name: string): keyof BatchRow | undefined {
+  return COLUMN_ALIASES[name.toLowerCase().replace(/[\s_\-]/g, '')];
+}
+
+/**
+ * RFC 4180 records: quoted fields may contain commas, doubled quotes and line breaks.
+ * Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0].trim() !== '') records.push(record);
+    record = [];
+    field = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new Error('Unterminated quoted field in CSV');
+  if (field !== '' || record.length > 0) endRecord();
+  return records;
+}
+
+function toRow(raw: Record<string, unknown>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const column = canonicalColumn(key);
+    // Empty CSV cells and JSON nulls mean "not provided"
+    if (!column || value === null || value === undefined) continue;
+    if (typeof value === 'string' && value.trim() === '') continue;
+    row[column] = typeof value === 'string' ? value.trim() : value;
+  }
+  return row;
+}
+
+function readRecords(content: string, format: BatchFormat): Record<string, unknown>[] {
+  if (format === 'jsonl') {
+    return content
+      .split(/\r?\n/)
+      .filter((line) => line.trim() !== '')
+      .map((line, index) => {
+        try {
+          return JSON.parse(line) as Record<string, unknown>;
+        } catch {
+          throw new Error(`Row ${index + 1} is not valid JSON`);
+        }
+      });
+  }
+
+  const [header, ...records] = parseCsv(content);
+  if (!header) return [];
+  if (!header.some((name) => canonicalColumn(name))) {
+    throw new Error(`CSV header has no recognised columns: ${header.join(', ')}`);
+  }
+  return records.map((record) => Object.fromEntries(header.map((name, i) => [name, record[i]])));
+}
+
+/** Parse an uploaded catalog, validating every row rather than stopping at the first bad one */
+export function parseBatch(content: string, format: BatchFormat): ParsedBatch {
+  const rows: BatchRow[] = [];
+  const errors: BatchRowError[] = [];
+
+  readRecords(content, format).forEach((record, index) => {
+    const parsed = BatchRowSchema.safeParse(toRow(record));
+    if (parsed.success) {
+      rows.push(parsed.data);
+    } else {
+      for (const issue of parsed.error.errors) {
+        const field = issue.path.join('.');
+        errors.push({ row: index + 1, message: field ? `${field}: ${issue.message}` : issue.message });
+      }
+    }
+  });
+
+  return { rows, errors };
+}
@@ -0,0 +1,37 @@
+import pricingData from '../../data/model-pricing.json';
+import type { ClassificationResult } from '../../types/classification.js';
+
+interface ModelPrice {
+  inputPerMTok: number;
+  outputPerMTok: number;
+}
+
+interface PricingTable {
+  version: string;
+  currency: string;
+  models: Record<string, ModelPrice>;
+  providers: Record<string, { perRequest: number | null; note?: string }>;
+}
+
+const PRICING = pricingData as PricingTable;
+
+/** Longest listed model name the reported model starts with (gpt-4o-mini before gpt-4o) */
+function modelPrice(model: string): ModelPrice | undefined {
+  const key = Object.keys(PRICING.models)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? PRICING.models[key] : undefined;
+}
+
+/**
+ * Cost in USD of one classification: token usage for LLMs, a flat per-request
+ * rate for API providers. Undefined when no price is configured.
+ */
+export function estimateCost(result: ClassificationResult): number | undefined {
+  if (result.usage) {
+    const price = modelPrice(result.usage.model);
+    if (!price) return undefined;
+    return (result.usage.inputTokens * price.inputPerMTok + result.usage.outputTokens * price.outputPerMTok) / 1_000_000;
+  }
+  return PRICING.providers[result.provider]?.perRequest ?? undefined;
+}
@@ -0,0 +1,50 @@
+import fs from 'node:fs';
+import { z } from 'zod';
+import type { GoldenDataset } from '../../types/benchmark.js';
+import { validateHsCode } from '../hs/index.js';
+
+const GoldenCaseSchema = z
+  .object({
+    id: z.string().min(1),
+    productName: z.string().optional(),
+    productDescription: z.string().optional(),
+    imageUrl: z.string().url().optional(),
+    originCountry: z.string().length(2).optional(),
+    shipToCountry: z.string().length(2),
+    expectedHsCode: z.string(),
+    source: z.string().optional(),
+  })
+  .refine((c) => c.productName || c.productDescription || c.imageUrl, {
+    message: 'Case needs a productName, productDescription or imageUrl',
+  });
+
+const GoldenDatasetSchema = z.object({
+  name: z.string(),
+  version: z.string(),
+  nomenclature: z.string(),
+  cases: z.array(GoldenCaseSchema).min(1),
+});
+
+/**
+ * Read a golden dataset, rejecting duplicate ids and expected codes that are not
+ * in the bundled nomenclature.
+ */
+export function loadDataset(file: string): GoldenDataset {
+  const dataset = GoldenDatasetSchema.parse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+
+  const seen = new Set<string>();
+  for (const goldenCase of dataset.cases) {
+    if (seen.has(goldenCase.id)) {
+      throw new Error(`Duplicate case id ${goldenCase.id} in ${file}`);
+    }
+    seen.add(goldenCase.id);
+
+    const validation = validateHsCode(goldenCase.expectedHsCode);
+    if (!validation.valid) {
+      throw new Error(`Case ${goldenCase.id}: ${validation.errors.join('; ')}`);
+    }
+    goldenCase.expectedHsCode = validation.code;
+  }
+
+  return dataset;
+}
@@ -0,0 +1,6 @@
+export { loadDataset } from './dataset.js';
+export { runBenchmark } from './runner.js';
+export type { BenchmarkOptions } from './runner.js';
+export { calibrate, summarizeProvider } from './metrics.js';
+export { estimateCost } from './cost.js';
+export { DEFAULT_REGRESSION_THRESHOLD, diffReports, renderMarkdown } from './report.js';
@@ -0,0 +1,70 @@
+import type { BenchmarkCaseResult, Calibration, ProviderBenchmark } from '../../types/benchmark.js';
+import { HS_MATCH_LEVELS, type HsMatchLevel } from '../../types/hs.js';
+import { reliability } from '../calibration/index.js';
+
+export interface ScoredResult extends BenchmarkCaseResult {
+  assessable: HsMatchLevel[];
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function round(value: number, places: number = 4): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/** A result is correct at a level when its deepest match is that level or more specific */
+function correctAt(result: BenchmarkCaseResult, level: HsMatchLevel): boolean {
+  return !!result.match && HS_MATCH_LEVELS.indexOf(result.match) <= HS_MATCH_LEVELS.indexOf(level);
+}
+
+/** HS6 reliability of the stated confidences; errored results carry no meaningful confidence and are left out */
+export function calibrate(results: BenchmarkCaseResult[]): Calibration {
+  return reliability(
+    results.filter((r) => !r.error).map((r) => ({ confidence: r.confidence, correct: correctAt(r, 'hs6') }))
+  );
+}
+
+/**
+ * Accuracy counts failures as misses; latency only covers answered cases, so a
+ * provider that times out is not flattered by its fast failures.
+ */
+export function summarizeProvider(results: ScoredResult[]): ProviderBenchmark {
+  const accuracy: ProviderBenchmark['accuracy'] = {};
+  for (const level of HS_MATCH_LEVELS) {
+    const judged = results.filter((r) => r.assessable.includes(level));
+    if (judged.length > 0) {
+      accuracy[level] = round(judged.filter((r) => correctAt(r, level)).length / judged.length);
+    }
+  }
+
+  const latencies = results
+    .filter((r) => !r.error)
+    .map((r) => r.latencyMs)
+    .sort((a, b) => a - b);
+  const meanLatency = latencies.length > 0 ? latencies.reduce((a, b) => a + b, 0) / latencies.length : 0;
+
+  const costs = results.map((r) => r.costUsd).filter((c): c is number => c !== undefined);
+
+  return {
+    cases: results.length,
+    errors: results.filter((r) => r.error).length,
+    accuracy,
+    calibration: calibrate(results),
+    latencyMs: {
+      mean: Math.round(meanLatency),
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+      max: latencies[latencies.length - 1] ?? 0,
+    },
+    ...(costs.length > 0 && {
+      costUsd: {
+        total: round(costs.reduce((a, b) => a + b, 0), 6),
+        perCase: round(costs.reduce((a, b) => a + b, 0) / results.length, 6),
+      },
+    }),
+  };
+}
@@ -0,0 +1,161 @@
+import type { BenchmarkDiff, BenchmarkReport } from '../../types/benchmark.js';
+import { HS_MATCH_LEVELS, type HsMatchLevel } from '../../types/hs.js';
+
+/** Accuracy drops (or calibration error rises) larger than this are reported as regressions */
+export const DEFAULT_REGRESSION_THRESHOLD = 0.05;
+
+function hs6Correct(match?: HsMatchLevel): boolean {
+  return !!match && HS_MATCH_LEVELS.indexOf(match) <= HS_MATCH_LEVELS.indexOf('hs6');
+}
+
+function delta(current: number | undefined, baseline: number | undefined): number | undefined {
+  return current === undefined || baseline === undefined ? undefined : Math.round((current - baseline) * 10000) / 10000;
+}
+
+const pct = (rate: number | undefined) => (rate === undefined ? '–' : `${(rate * 100).toFixed(1)}%`);
+const signedPct = (change: number) => `${change > 0 ? '+' : ''}${(change * 100).toFixed(1)} pts`;
+
+export function diffReports(
+  baseline: BenchmarkReport,
+  current: BenchmarkReport,
+  threshold: number = DEFAULT_REGRESSION_THRESHOLD
+): BenchmarkDiff {
+  const providers: BenchmarkDiff['providers'] = {};
+  const regressions: string[] = [];
+
+  for (const [name, now] of Object.entries(current.providers)) {
+    const before = baseline.providers[name];
+    if (!before) continue;
+
+    const accuracy: Partial<Record<HsMatchLevel, number>> = {};
+    for (const level of HS_MATCH_LEVELS) {
+      const change = delta(now.accuracy[level], before.accuracy[level]);
+      if (change === undefined) continue;
+      accuracy[level] = change;
+      if (change < -threshold) {
+        regressions.push(
+          `${name} ${level} accuracy ${pct(before.accuracy[level])} → ${pct(now.accuracy[level])} (${signedPct(change)})`
+        );
+      }
+    }
+
+    const eceChange = delta(now.calibration.expectedCalibrationError, before.calibration.expectedCalibrationError);
+    if (eceChange !== undefined && eceChange > threshold) {
+      regressions.push(
+        `${name} calibration error ${before.calibration.expectedCalibrationError} → ${now.calibration.expectedCalibrationError}`
+      );
+    }
+
+    providers[name] = {
+      accuracy,
+      expectedCalibrationError: eceChange,
+      meanLatencyMs: now.latencyMs.mean - before.latencyMs.mean,
+      costPerCaseUsd: delta(now.costUsd?.perCase, before.costUsd?.perCase),
+    };
+  }
+
+  const baselineCases = new Map(baseline.cases.map((c) => [c.id, c]));
+  const changedCases: BenchmarkDiff['changedCases'] = [];
+  for (const currentCase of current.cases) {
+    const previous = baselineCases.get(currentCase.id);
+    if (!previous) continue;
+    for (const [provider, result] of Object.entries(currentCase.results)) {
+      const earlier = previous.results[provider];
+      if (earlier && hs6Correct(earlier.match) !== hs6Correct(result.match)) {
+        changedCases.push({ id: currentCase.id, provider, before: earlier.match, after: result.match });
+      }
+    }
+  }
+
+  return {
+    baseline: { startedAt: baseline.startedAt, datasetVersion: baseline.dataset.version },
+    providers,
+    changedCases,
+    regressions,
+  };
+}
+
+export function renderMarkdown(report: BenchmarkReport, diff?: BenchmarkDiff): string {
+  const names = Object.keys(report.providers);
+  const lines: string[] = [
+    `# Classification benchmark — ${report.dataset.name} v${report.dataset.version}`,
+    '',
+    `${report.dataset.cases} cases, run ${report.startedAt} to ${report.completedAt}.`,
+    '',
+    '## Accuracy',
+    '',
+    `| Provider | ${HS_MATCH_LEVELS.map((l) => l.toUpperCase()).join(' | ')} | Errors |`,
+    `|---|${HS_MATCH_LEVELS.map(() => '---:').join('|')}|---:|`,
+    ...names.map((name) => {
+      const p = report.providers[name];
+      return `| ${name} | ${HS_MATCH_LEVELS.map((l) => pct(p.accuracy[l])).join(' | ')} | ${p.errors} |`;
+    }),
+    '',
+    '## Calibration (confidence vs HS6 correctness)',
+    '',
+    '| Provider | ECE | Brier |',
+    '|---|---:|---:|',
+    ...names.map((name) => {
+      const c = report.providers[name].calibration;
+      return `| ${name} | ${c.expectedCalibrationError.toFixed(3)} | ${c.brierScore.toFixed(3)} |`;
+    }),
+    '',
+    '## Latency and cost',
+    '',
+    '| Provider | Mean ms | p50 ms | p95 ms | Cost/case (USD) | Total (USD) |',
+    '|---|---:|---:|---:|---:|---:|',
+    ...names.map((name) => {
+      const p = report.providers[name];
+      const cost = p.costUsd;
+      return `| ${name} | ${p.latencyMs.mean} | ${p.latencyMs.p50} | ${p.latencyMs.p95} | ${cost ? cost.perCase.toFixed(4) : '–'} | ${cost ? cost.total.toFixed(4) : '–'} |`;
+    }),
+    '',
+  ];
+
+  if (diff) {
+    lines.push(`## Change since ${diff.baseline.startedAt} (dataset v${diff.baseline.datasetVersion})`, '');
+    if (diff.regressions.length > 0) {
+      lines.push('**Regressions**', '', ...diff.regressions.map((r) => `- ${r}`), '');
+    } else {
+      lines.push('No regressions.', '');
+    }
+    lines.push(
+      `| Provider | ${HS_MATCH_LEVELS.map((l) => l.toUpperCase()).join(' | ')} | Mean ms |`,
+      `|---|${HS_MATCH_LEVELS.map(() => '---:').join('|')}|---:|`,
+      ...Object.entries(diff.providers).map(
+        ([name, d]) =>
+          `| ${name} | ${HS_MATCH_LEVELS.map((l) => (d.accuracy[l] === undefined ? '–' : signedPct(d.accuracy[l]!))).join(' | ')} | ${d.meanLatencyMs > 0 ? '+' : ''}${d.meanLatencyMs} |`
+      ),
+      ''
+    );
+    if (diff.changedCases.length > 0) {
+      lines.push(
+        '**Cases that changed at HS6**',
+        '',
+        ...diff.changedCases.map(
+          (c) => `- ${c.id} (${c.provider}): ${c.before ?? 'miss'} → ${c.after ?? 'miss'}`
+        ),
+        ''
+      );
+    }
+  }
+
+  lines.push(
+    '## Cases',
+    '',
+    `| Case | Expected | ${names.join(' | ')} |`,
+    `|---|---|${names.map(() => '---').join('|')}|`,
+    ...report.cases.map((c) => {
+      const cells = names.map((name) => {
+        const r = c.results[name];
+        if (!r) return '';
+        if (r.error) return `error: ${r.error.replace(/\|/g, '/')}`;
+        return `${r.hsCode} (${r.match ?? 'miss'})`;
+      });
+      return `| ${c.id} | ${c.expectedHsCode} | ${cells.join(' | ')} |`;
+    }),
+    ''
+  );
+
+  return lines.join('\n');
+}
@@ -0,0 +1,62 @@
+import type { BenchmarkReport, GoldenDataset } from '../../types/benchmark.js';
+import type { ClassificationResult, ProviderName, ProviderRecord } from '../../types/classification.js';
+import { listProviders, runClassifiers } from '../classifiers/index.js';
+import { assessableLevels, deepestMatch } from '../hs/index.js';
+import { estimateCost } from './cost.js';
+import { summarizeProvider, type ScoredResult } from './metrics.js';
+
+export interface BenchmarkOptions {
+  /** Defaults to every registered provider */
+  providers?: ProviderName[];
+  onCase?: (id: string, results: ProviderRecord<ClassificationResult>) => void;
+}
+
+/**
+ * Classify every case with the registered providers, in process. Cases run one
+ * after another so latency figures aren't skewed by the benchmark's own load.
+ */
+export async function runBenchmark(dataset: GoldenDataset, options: BenchmarkOptions = {}): Promise<BenchmarkReport> {
+  const providers = listProviders().filter((p) => !options.providers || options.providers.includes(p.name));
+  if (providers.length === 0) {
+    throw new Error('No providers selected for the benchmark');
+  }
+
+  const startedAt = new Date().toISOString();
+  const scored: ProviderRecord<ScoredResult[]> = Object.fromEntries(providers.map((p) => [p.name, []]));
+  const cases: BenchmarkReport['cases'] = [];
+
+  for (const goldenCase of dataset.cases) {
+    const classifications = await runClassifiers(providers, {
+      productName: goldenCase.productName,
+      productDescription: goldenCase.productDescription,
+      imageUrl: goldenCase.imageUrl,
+      originCountry: goldenCase.originCountry,
+      shipToCountry: goldenCase.shipToCountry,
+    });
+    options.onCase?.(goldenCase.id, classifications);
+
+    const results: BenchmarkReport['cases'][number]['results'] = {};
+    for (const [name, classification] of Object.entries(classifications)) {
+      const usable = !classification.error && !!classification.hsCode;
+      const result = {
+        hsCode: classification.hsCode,
+        confidence: classification.confidence,
+        latencyMs: classification.latencyMs,
+        match: usable ? deepestMatch(classification.hsCode, goldenCase.expectedHsCode) : undefined,
+        costUsd: estimateCost(classification),
+        ...(classification.error && { error: classification.error }),
+      };
+      results[name] = result;
+      scored[name].push({ ...result, assessable: assessableLevels(goldenCase.expectedHsCode) });
+    }
+    cases.push({ id: goldenCase.id, expectedHsCode: goldenCase.expectedHsCode, results });
+  }
+
+  return {
+    dataset: { name: dataset.name, version: dataset.version, cases: dataset.cases.length },
+    startedAt,
+    completedAt: new Date().toISOString(),
+    providers: Object.fromEntries(Object.entries(scored).map(([name, results]) => [name, summarizeProvider(results)])),
+    cases,
+  };
+}
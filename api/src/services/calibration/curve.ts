@@ -0,0 +1,130 @@
+import type {
+  Calibration,
+  CalibrationSample,
+  ReliabilityCurve,
+} from '../../types/calibration.js';
+
+const CALIBRATION_BINS = 10;
+const CALIBRATION_FOLDS = 5;
+
+function round(value: number, places: number = 4): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+const clamp = (confidence: number) => Math.min(1, Math.max(0, confidence));
+
+/** Equal-width confidence bins, with expected calibration error and Brier score */
+export function reliability(samples: CalibrationSample[]): Calibration {
+  const bins = Array.from({ length: CALIBRATION_BINS }, (_, i) => ({
+    range: [i / CALIBRATION_BINS, (i + 1) / CALIBRATION_BINS] as [number, number],
+    confidence: 0,
+    correct: 0,
+    count: 0,
+  }));
+
+  let brier = 0;
+  for (const sample of samples) {
+    const confidence = clamp(sample.confidence);
+    const correct = sample.correct ? 1 : 0;
+    const bin = bins[Math.min(CALIBRATION_BINS - 1, Math.floor(confidence * CALIBRATION_BINS))];
+    bin.count++;
+    bin.confidence += confidence;
+    bin.correct += correct;
+    brier += (confidence - correct) ** 2;
+  }
+
+  const filled = bins.filter((bin) => bin.count > 0);
+  const ece = filled.reduce(
+    (sum, bin) => sum + (bin.count / samples.length) * Math.abs(bin.correct / bin.count - bin.confidence / bin.count),
+    0
+  );
+
+  return {
+    bins: filled.map((bin) => ({
+      range: bin.range,
+      count: bin.count,
+      meanConfidence: round(bin.confidence / bin.count),
+      accuracy: round(bin.correct / bin.count),
+    })),
+    expectedCalibrationError: round(ece),
+    brierScore: samples.length > 0 ? round(brier / samples.length) : 0,
+  };
+}
+
+/**
+ * Isotonic regression by pool-adjacent-violators: samples sorted by confidence are
+ * pooled until accuracy never falls as confidence rises. Each pool becomes one point.
+ * Samples with the same confidence always share a pool (Zonos often reports a flat 0.85).
+ */
+export function fitCurve(provider: string, samples: CalibrationSample[]): ReliabilityCurve {
+  type Block = { confidence: number; correct: number; count: number };
+  const byConfidence = new Map<number, Block>();
+  for (const sample of samples) {
+    const confidence = clamp(sample.confidence);
+    const block = byConfidence.get(confidence) ?? { confidence: 0, correct: 0, count: 0 };
+    block.confidence += confidence;
+    block.correct += sample.correct ? 1 : 0;
+    block.count++;
+    byConfidence.set(confidence, block);
+  }
+
+  const blocks: Block[] = [];
+  const mean = (block: Block) => block.correct / block.count;
+  for (const [, block] of [...byConfidence].sort(([a], [b]) => a - b)) {
+    blocks.push(block);
+    while (blocks.length > 1 && mean(blocks[blocks.length - 2]) >= mean(blocks[blocks.length - 1])) {
+      const last = blocks.pop()!;
+      const previous = blocks[blocks.length - 1];
+      previous.confidence += last.confidence;
+      previous.correct += last.correct;
+      previous.count += last.count;
+    }
+  }
+
+  return {
+    provider,
+    samples: samples.length,
+    points: blocks.map((block) => ({
+      confidence: round(block.confidence / block.count),
+      probability: round(mean(block)),
+    })),
+  };
+}
+
+/** Calibrated probability for a raw confidence; flat beyond the first and last points */
+export function applyCurve(curve: ReliabilityCurve, confidence: number): number {
+  const { points } = curve;
+  const raw = clamp(confidence);
+  if (raw <= points[0].confidence) return points[0].probability;
+
+  for (let i = 1; i < points.length; i++) {
+    const [left, right] = [points[i - 1], points[i]];
+    if (raw <= right.confidence) {
+      const t = (raw - left.confidence) / (right.confidence - left.confidence);
+      return round(left.probability + t * (right.probability - left.probability));
+    }
+  }
+  return points[points.length - 1].probability;
+}
+
+/**
+ * Reliability of calibrated confidence, out of sample: each of `folds` interleaved
+ * folds is scored with a curve fitted on the others. Scoring the samples a curve
+ * was fitted on would report an error near zero whatever the curve is worth.
+ */
+export function crossValidatedReliability(
+  provider: string,
+  samples: CalibrationSample[],
+  folds: number = CALIBRATION_FOLDS
+): Calibration {
+  const scored: CalibrationSample[] = [];
+  for (let fold = 0; fold < folds; fold++) {
+    const heldOut = samples.filter((_, i) => i % folds === fold);
+    const training = samples.filter((_, i) => i % folds !== fold);
+    if (heldOut.length === 0 || training.length === 0) continue;
+    const curve = fitCurve(provider, training);
+    scored.push(...heldOut.map((sample) => ({ ...sample, confidence: applyCurve(curve, sample.confidence) })));
+  }
+  return reliability(scored);
+}
@@ -0,0 +1,88 @@
+import type { CalibrationSample, ProviderCalibration, ReliabilityCurve } from '../../types/calibration.js';
+import type { ClassificationResult, ComparisonResult, ProviderName, ProviderRecord } from '../../types/classification.js';
+import { matchesAtLevel } from '../hs/index.js';
+import { getComparisonRepository } from '../storage/index.js';
+import { applyCurve, crossValidatedReliability, fitCurve, reliability } from './curve.js';
+
+/** Labelled outcomes a provider needs before its confidences are calibrated */
+export const MIN_CALIBRATION_SAMPLES = Number(process.env.MIN_CALIBRATION_SAMPLES) || 30;
+
+export type ReliabilityCurves = Map<ProviderName, ReliabilityCurve>;
+
+/**
+ * Each labelled comparison gives every provider that answered one sample: its raw
+ * confidence, and whether its code matched the verified code at HS6. Failures carry
+ * no meaningful confidence and are left out.
+ */
+export function calibrationSamples(results: ComparisonResult[]): ProviderRecord<CalibrationSample[]> {
+  const samples: ProviderRecord<CalibrationSample[]> = {};
+  for (const result of results) {
+    const verified = result.groundTruth?.hsCode;
+    if (!verified) continue;
+    for (const [name, classification] of Object.entries(result.classifications)) {
+      if (classification.error || !classification.hsCode) continue;
+      (samples[name] ??= []).push({
+        confidence: classification.confidence,
+        correct: matchesAtLevel('hs6', classification.hsCode, verified),
+      });
+    }
+  }
+  return samples;
+}
+
+export function fitCurves(results: ComparisonResult[]): ReliabilityCurves {
+  const curves: ReliabilityCurves = new Map();
+  for (const [name, samples] of Object.entries(calibrationSamples(results))) {
+    if (samples.length >= MIN_CALIBRATION_SAMPLES) curves.set(name, fitCurve(name, samples));
+  }
+  return curves;
+}
+
+let curvesPromise: Promise<ReliabilityCurves> | null = null;
+
+/** Curves fitted from every stored label, refitted after invalidateCalibration() */
+export function getReliabilityCurves(): Promise<ReliabilityCurves> {
+  if (!curvesPromise) {
+    curvesPromise = getComparisonRepository()
+      .then((repository) => repository.list())
+      .then(fitCurves);
+    curvesPromise.catch(() => {
+      curvesPromise = null;
+    });
+  }
+  return curvesPromise;
+}
+
+/** Call when labels change */
+export function invalidateCalibration(): void {
+  curvesPromise = null;
+}
+
+export function withCalibratedConfidence<T extends Omit<ClassificationResult, 'rawResponse'>>(
+  result: T,
+  curves: ReliabilityCurves
+): T {
+  const curve = curves.get(result.provider);
+  if (!curve || result.error || !result.hsCode) return result;
+  return { ...result, calibratedConfidence: applyCurve(curve, result.confidence) };
+}
+
+/**
+ * Per-provider reliability of raw confidence and, once a curve is fitted, of calibrated
+ * confidence measured by cross-validation
+ */
+export function calibrationStats(results: ComparisonResult[]): ProviderRecord<ProviderCalibration> {
+  const stats: ProviderRecord<ProviderCalibration> = {};
+  for (const [name, samples] of Object.entries(calibrationSamples(results))) {
+    const curve = samples.length >= MIN_CALIBRATION_SAMPLES ? fitCurve(name, samples) : undefined;
+    stats[name] = {
+      samples: samples.length,
+      raw: reliability(samples),
+      ...(curve && {
+        calibrated: crossValidatedReliability(name, samples),
+        curve: curve.points,
+      }),
+    };
+  }
+  return stats;
+}
@@ -0,0 +1,11 @@
+export { applyCurve, crossValidatedReliability, fitCurve, reliability } from './curve.js';
+export {
+  MIN_CALIBRATION_SAMPLES,
+  calibrationSamples,
+  calibrationStats,
+  fitCurves,
+  getReliabilityCurves,
+  invalidateCalibration,
+  withCalibratedConfidence,
+} from './history.js';
+export type { ReliabilityCurves } from './history.js';
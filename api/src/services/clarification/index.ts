@@ -0,0 +1,6 @@
+export {
+  MAX_CLARIFICATION_ROUNDS,
+  answerClarification,
+  startClarification,
+  unknownQuestionIds,
+} from './session.js';
@@ -0,0 +1,103 @@
+import type {
+  ClarificationAnswer,
+  ClarificationRound,
+  ClarificationSession,
+  ClassificationInput,
+  ComparisonResult,
+} from '../../types/classification.js';
+import { clarifyWithAnthropic, type ClarificationFact } from '../classifiers/index.js';
+import { getComparisonRepository } from '../storage/index.js';
+
+/** Classifier turns per session; the last one must settle without asking */
+export const MAX_CLARIFICATION_ROUNDS = 3;
+
+function answeredFacts(rounds: ClarificationRound[]): ClarificationFact[] {
+  return rounds.flatMap((round) =>
+    (round.answers ?? []).flatMap((answer) => {
+      const question = round.questions.find((q) => q.id === answer.questionId);
+      return question ? [{ question: question.question, answer: answer.answer }] : [];
+    })
+  );
+}
+
+async function nextRound(input: ClassificationInput, rounds: ClarificationRound[]): Promise<ClarificationRound> {
+  const number = rounds.length + 1;
+  const { classification, questions } = await clarifyWithAnthropic(
+    input,
+    answeredFacts(rounds),
+    number >= MAX_CLARIFICATION_ROUNDS
+  );
+  const { rawResponse: _raw, ...result } = classification;
+  return {
+    classification: result,
+    questions: questions.map((question, i) => ({ id: `r${number}q${i + 1}`, ...question })),
+  };
+}
+
+function statusOf(round: ClarificationRound): ClarificationSession['status'] {
+  if (round.classification.error) return 'failed';
+  return round.questions.length > 0 ? 'awaiting_answers' : 'complete';
+}
+
+/**
+ * Rounds take seconds, so the comparison is read again before saving: changes made
+ * meanwhile (a ground truth label, …) are kept.
+ */
+async function saveSession(result: ComparisonResult, session: ClarificationSession): Promise<ClarificationSession> {
+  const repository = await getComparisonRepository();
+  const current = (await repository.get(result.id)) ?? result;
+  await repository.save({ ...current, clarification: session });
+  return session;
+}
+
+/**
+ * Start a clarification session for a stored comparison, replacing any earlier one.
+ * The first round classifies the comparison's product and may ask questions.
+ */
+export async function startClarification(result: ComparisonResult): Promise<ClarificationSession> {
+  const round = await nextRound(result.input, []);
+  const now = new Date().toISOString();
+  return saveSession(result, {
+    provider: 'anthropic',
+    status: statusOf(round),
+    rounds: [round],
+    startedAt: now,
+    updatedAt: now,
+  });
+}
+
+/** Answered ids that are not questions of the current round */
+export function unknownQuestionIds(session: ClarificationSession, answers: ClarificationAnswer[]): string[] {
+  const questions = session.rounds.at(-1)?.questions ?? [];
+  return answers.map((a) => a.questionId).filter((id) => !questions.some((q) => q.id === id));
+}
+
+/**
+ * Record answers to the current round's questions and classify again with them as
+ * facts. The session must be awaiting answers. If the new round fails nothing is
+ * saved, so the session keeps awaiting the same answers and they can be sent again.
+ * Resolves to the session as stored and the new round.
+ */
+export async function answerClarification(
+  result: ComparisonResult,
+  answers: ClarificationAnswer[]
+): Promise<{ session: ClarificationSession; round: ClarificationRound }> {
+  const session = result.clarification;
+  if (!session || session.status !== 'awaiting_answers') {
+    throw new Error('Clarification session is not awaiting answers');
+  }
+
+  const rounds = [...session.rounds];
+  rounds[rounds.length - 1] = { ...rounds[rounds.length - 1], answers };
+  const round = await nextRound(result.input, rounds);
+  if (round.classification.error) {
+    return { session, round };
+  }
+  const saved = await saveSession(result, {
+    ...session,
+    status: statusOf(round),
+    rounds: [...rounds, round],
+    updatedAt: new Date().toISOString(),
+  });
+  return { session: saved, round };
+}
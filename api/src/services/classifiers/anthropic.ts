@@ -1,37 +1,112 @@
-import Anthropic from '@anthropic-ai/sdk';
-import type { ClassificationInput, ClassificationResult } from '../../types/classification.js';
-
-const HS_CODE_SYSTEM_PROMPT = `You are an expert customs classification specialist with deep knowledge of the Harmonized System (HS) codes used for international trade.
-
-Your task is to analyze product images and descriptions to determine the most accurate HS code for customs classification. You must also estimate the retail value of the product in EUR.
-
-When classifying products:
-1. Identify the product type, material composition, and intended use
-2. Consider the General Rules of Interpretation (GRI)
-3. Provide the most specific HS code possible (6-10 digits)
-4. For EU imports, provide the 8-digit CN (Combined Nomenclature) code when possible. For US imports, provide the HTS code.
-5. Estimate the retail market value of the product in EUR based on the image, brand indicators, material quality, and product category
-
-Response format (JSON):
-{
-  "hsCode": "XXXX.XX.XXXX", // Full HS code with dots for readability
-  "hsCode6": "XXXX.XX",     // Universal 6-digit code
-  "hsCode8": "XXXX.XX.XX",  // EU 8-digit CN code if applicable
-  "description": "Official HS description for this code",
-  "confidence": 0.85,       // 0-1 confidence score
-  "reasoning": "Brief explanation of classification logic",
-  "productIdentified": "What product you identified in the image",
-  "estimatedValueEUR": 150.00 // Estimated retail value in EUR
+import Anthropic, { type ClientOptions } from '@anthropic-ai/sdk';
+import type { ClassificationInput, ClassificationResult, TokenUsage } from '../../types/classification.js';
+import { classificationCodes } from '../hs/index.js';
+import { rankAlternatives } from './candidates.js';
+import {
+  CLARIFYING_OUTPUT,
+  CLASSIFICATION_OUTPUT,
+  anthropicStructured,
+  describeOutputError,
+  modelParams,
+  resolveModel,
+  type ClarifyingOutput,
+  type ClassificationOutput,
+} from '../llm/index.js';
+import { providerApiKey, sdkTransport } from '../recording/index.js';
+import { resolvePrompt } from '../prompts/index.js';
+
+/** Below this confidence the classifier may ask the user clarifying questions */
+export const CLARIFY_BELOW_CONFIDENCE = Number(process.env.CLARIFY_BELOW_CONFIDENCE) || 0.7;
+
+const CLARIFYING_INSTRUCTIONS = `
+
+If your confidence is below ${CLARIFY_BELOW_CONFIDENCE} because the code hinges on a fact you cannot determine (material composition, gender, intended use, how it is put up for sale), also ask up to 3 short questions whose answers would settle it, with likely answers as options. Facts the user has already confirmed are final; do not ask about them again.`;
+
+const FINAL_INSTRUCTIONS = `
+
+The user has answered all the questions they will be asked. Do not ask any more; give your best classification from what is known.`;
+
+function toClassification(
+  parsed: ClassificationOutput,
+  promptVersion: string,
+  model: string,
+  usage: TokenUsage | undefined,
+  latencyMs: number
+): ClassificationResult {
+  return {
+    provider: 'anthropic',
+    ...classificationCodes(parsed),
+    description: parsed.description,
+    confidence: parsed.confidence,
+    promptVersion,
+    model,
+    reasoning: parsed.reasoning,
+    productIdentified: parsed.productIdentified,
+    alternatives: rankAlternatives(parsed.hsCode, parsed.alternatives),
+    estimatedValueEUR: parsed.estimatedValueEUR,
+    rawResponse: parsed,
+    usage,
+    latencyMs,
+  };
 }
 
-Be precise and conservative with confidence scores. Only high confidence (>0.8) for clear, unambiguous products. For value estimation, provide your best estimate based on visible brand, quality, and product category. If uncertain, estimate conservatively.`;
+/** The product as a user message: its image, if any, and its details */
+function buildContent(input: ClassificationInput, facts: ClarificationFact[] = []): Anthropic.ContentBlockParam[] {
+  const content: Anthropic.ContentBlockParam[] = [];
+
+  // Add image if provided
+  if (input.imageBase64) {
+    // Extract media type and base64 data
+    const matches = input.imageBase64.match(/^data:(.+);base64,(.+)$/);
+    if (matches) {
+      content.push({
+        type: 'image',
+        source: {
+          type: 'base64',
+          media_type: matches[1] as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp',
+          data: matches[2],
+        },
+      });
+    }
+  } else if (input.imageUrl) {
+    content.push({
+      type: 'image',
+      source: {
+        type: 'url',
+        url: input.imageUrl,
+      },
+    });
+  }
+
+  // Build text prompt
+  const destination = input.shipToCountry || 'US';
+  let textPrompt = `Classify this product for customs import to ${destination}.\n\n`;
+  if (input.productName) {
+    textPrompt += `Product Name: ${input.productName}\n`;
+  }
+  if (input.productDescription) {
+    textPrompt += `Description: ${input.productDescription}\n`;
+  }
+  if (input.originCountry) {
+    textPrompt += `Origin Country: ${input.originCountry}\n`;
+  }
+  textPrompt += `\nDestination: ${destination}\n`;
+  if (facts.length > 0) {
+    textPrompt += `\nConfirmed by the user:\n${facts.map((f) => `- ${f.question} ${f.answer}`).join('\n')}\n`;
+  }
+  textPrompt += '\nRecord the HS code classification.';
+
+  content.push({ type: 'text', text: textPrompt });
+  return content;
+}
 
 export async function classifyWithAnthropic(
   input: ClassificationInput
 ): Promise<ClassificationResult> {
   const startTime = Date.now();
+  const settings = resolveModel('anthropic', input.models?.anthropic);
 
-  const apiKey = process.env.ANTHROPIC_API_KEY;
+  const apiKey = providerApiKey('ANTHROPIC_API_KEY');
   if (!apiKey) {
     return {
       provider: 'anthropic',
@@ -39,92 +114,47 @@ export async function classifyWithAnthropic(
       hsCode6: '',
       description: '',
       confidence: 0,
+      model: settings.model,
       latencyMs: Date.now() - startTime,
       error: 'ANTHROPIC_API_KEY not configured',
     };
   }
 
-  const client = new Anthropic({ apiKey });
+  const client = new Anthropic({ apiKey, ...sdkTransport<ClientOptions['fetch']>('anthropic') });
 
   try {
-    const content: Anthropic.MessageCreateParams['messages'][0]['content'] = [];
-
-    // Add image if provided
-    if (input.imageBase64) {
-      // Extract media type and base64 data
-      const matches = input.imageBase64.match(/^data:(.+);base64,(.+)$/);
-      if (matches) {
-        content.push({
-          type: 'image',
-          source: {
-            type: 'base64',
-            media_type: matches[1] as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp',
-            data: matches[2],
-          },
-        });
-      }
-    } else if (input.imageUrl) {
-      content.push({
-        type: 'image',
-        source: {
-          type: 'url',
-          url: input.imageUrl,
-        },
-      });
-    }
-
-    // Build text prompt
-    const destination = input.shipToCountry || 'US';
-    let textPrompt = `Classify this product for customs import to ${destination}.\n\n`;
-    if (input.productName) {
-      textPrompt += `Product Name: ${input.productName}\n`;
-    }
-    if (input.productDescription) {
-      textPrompt += `Description: ${input.productDescription}\n`;
-    }
-    if (input.originCountry) {
-      textPrompt += `Origin Country: ${input.originCountry}\n`;
-    }
-    textPrompt += `\nDestination: ${destination}\n`;
-    textPrompt += '\nProvide the HS code classification in JSON format.';
-
-    content.push({ type: 'text', text: textPrompt });
-
-    const response = await client.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1024,
-      system: HS_CODE_SYSTEM_PROMPT,
-      messages: [{ role: 'user', content }],
-    });
+    const content = buildContent(input);
+    const prompt = resolvePrompt('anthropic', input.promptVersions?.anthropic);
+
+    const result = await anthropicStructured(
+      client,
+      {
+        ...modelParams(settings),
+        system: prompt.system,
+        messages: [{ role: 'user', content }],
+      },
+      CLASSIFICATION_OUTPUT
+    );
 
     const latencyMs = Date.now() - startTime;
 
-    // Extract text response
-    const textBlock = response.content.find((block) => block.type === 'text');
-    if (!textBlock || textBlock.type !== 'text') {
-      throw new Error('No text response from Anthropic');
+    if (!result.ok) {
+      return {
+        provider: 'anthropic',
+        hsCode: '',
+        hsCode6: '',
+        description: '',
+        confidence: 0,
+        promptVersion: prompt.version,
+        model: settings.model,
+        usage: result.usage,
+        latencyMs,
+        error: describeOutputError(result.error),
+        outputError: result.error,
+      };
     }
 
-    // Parse JSON from response
-    const jsonMatch = textBlock.text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('Could not parse JSON from response');
-    }
-
-    const parsed = JSON.parse(jsonMatch[0]);
-
-    return {
-      provider: 'anthropic',
-      hsCode: parsed.hsCode?.replace(/\./g, '') || '',
-      hsCode6: parsed.hsCode6?.replace(/\./g, '') || parsed.hsCode?.replace(/\./g, '').slice(0, 6) || '',
-      hsCode8: parsed.hsCode8?.replace(/\./g, ''),
-      description: parsed.description || '',
-      confidence: parsed.confidence || 0.5,
-      reasoning: parsed.reasoning,
-      estimatedValueEUR: typeof parsed.estimatedValueEUR === 'number' ? parsed.estimatedValueEUR : undefined,
-      rawResponse: parsed,
-      latencyMs,
-    };
+    return toClassification(result.data, prompt.version, settings.model, result.usage, latencyMs);
   } catch (error) {
     return {
       provider: 'anthropic',
@@ -132,8 +162,75 @@ export async function classifyWithAnthropic(
       hsCode6: '',
       description: '',
       confidence: 0,
+      model: settings.model,
       latencyMs: Date.now() - startTime,
       error: error instanceof Error ? error.message : 'Unknown error',
     };
   }
 }
+
+export interface ClarificationFact {
+  question: string;
+  answer: string;
+}
+
+/**
+ * Classify while allowing Claude to ask what the code hinges on. `facts` are earlier
+ * questions with the user's answers; with `final`, no more questions may be asked.
+ */
+export async function clarifyWithAnthropic(
+  input: ClassificationInput,
+  facts: ClarificationFact[],
+  final: boolean
+): Promise<{ classification: ClassificationResult; questions: ClarifyingOutput['questions'] }> {
+  const startTime = Date.now();
+  const settings = resolveModel('anthropic', input.models?.anthropic);
+  const failed = (error: string, extra?: Partial<ClassificationResult>) => ({
+    classification: {
+      provider: 'anthropic',
+      hsCode: '',
+      hsCode6: '',
+      description: '',
+      confidence: 0,
+      model: settings.model,
+      latencyMs: Date.now() - startTime,
+      error,
+      ...extra,
+    },
+    questions: [],
+  });
+
+  const apiKey = providerApiKey('ANTHROPIC_API_KEY');
+  if (!apiKey) return failed('ANTHROPIC_API_KEY not configured');
+
+  const client = new Anthropic({ apiKey, ...sdkTransport<ClientOptions['fetch']>('anthropic') });
+
+  try {
+    const prompt = resolvePrompt('anthropic', input.promptVersions?.anthropic);
+    const result = await anthropicStructured(
+      client,
+      {
+        ...modelParams(settings),
+        system: prompt.system + (final ? FINAL_INSTRUCTIONS : CLARIFYING_INSTRUCTIONS),
+        messages: [{ role: 'user', content: buildContent(input, facts) }],
+      },
+      CLARIFYING_OUTPUT
+    );
+
+    if (!result.ok) {
+      return failed(describeOutputError(result.error), {
+        promptVersion: prompt.version,
+        usage: result.usage,
+        outputError: result.error,
+      });
+    }
+
+    const { questions, ...parsed } = result.data;
+    return {
+      classification: toClassification(parsed, prompt.version, settings.model, result.usage, Date.now() - startTime),
+      questions: final ? [] : questions,
+    };
+  } catch (error) {
+    return failed(error instanceof Error ? error.message : 'Unknown error');
+  }
+}
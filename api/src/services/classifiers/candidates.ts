@@ -0,0 +1,47 @@
+import type { HsCandidate } from '../../types/classification.js';
+import { classificationCodes, normalizeHsCode } from '../hs/index.js';
+
+/** Alternatives kept per provider */
+export const MAX_ALTERNATIVES = 3;
+
+interface RawCandidate {
+  hsCode: string;
+  hsCode8?: string;
+  description?: string;
+  confidence?: number;
+  reasoning?: string;
+}
+
+/** One code is the other at a different precision, e.g. 6109.10 and 6109.10.0010 */
+function sameLine(a: string, b: string): boolean {
+  const [shorter, longer] = [normalizeHsCode(a), normalizeHsCode(b)].sort((x, y) => x.length - y.length);
+  return longer.startsWith(shorter);
+}
+
+/**
+ * Normalize a provider's alternative codes, most likely first. Codes that repeat the
+ * chosen code or an earlier alternative (at any precision), or that do not exist, are dropped.
+ */
+export function rankAlternatives(chosen: string, candidates: RawCandidate[]): HsCandidate[] {
+  const ranked: HsCandidate[] = [];
+  const sorted = [...candidates].sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0));
+
+  for (const candidate of sorted) {
+    let codes: ReturnType<typeof classificationCodes>;
+    try {
+      codes = classificationCodes(candidate);
+    } catch {
+      continue;
+    }
+    if (sameLine(codes.hsCode, chosen) || ranked.some((r) => sameLine(r.hsCode, codes.hsCode))) continue;
+
+    ranked.push({
+      ...codes,
+      description: candidate.description ?? '',
+      confidence: candidate.confidence ?? 0,
+      ...(candidate.reasoning && { reasoning: candidate.reasoning }),
+    });
+    if (ranked.length === MAX_ALTERNATIVES) break;
+  }
+  return ranked;
+}
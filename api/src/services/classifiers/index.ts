@@ -1,3 +1,44 @@
-export { classifyWithAnthropic } from './anthropic.js';
+import { classifyWithAnthropic } from './anthropic.js';
+import { classifyWithOpenAI } from './openai.js';
+import { classifyWithZonos } from './zonos.js';
+import { registerProvider } from './registry.js';
+
+export { CLARIFY_BELOW_CONFIDENCE, classifyWithAnthropic, clarifyWithAnthropic } from './anthropic.js';
+export type { ClarificationFact } from './anthropic.js';
 export { classifyWithOpenAI } from './openai.js';
-export { classifyWithZonos, calculateDutyWithZonos } from './zonos.js';
+export { classifyWithZonos, calculateDutyWithZonos, calculateShipmentWithZonos } from './zonos.js';
+export {
+  registerProvider,
+  unregisterProvider,
+  getProvider,
+  listProviders,
+  getProviderNames,
+  getReferenceProvider,
+} from './registry.js';
+export { runClassifiers } from './scheduler.js';
+export { MAX_ALTERNATIVES, rankAlternatives } from './candidates.js';
+
+// Built-in providers
+registerProvider({
+  name: 'anthropic',
+  displayName: 'Anthropic',
+  acceptsImageBase64: true,
+  classify: classifyWithAnthropic,
+});
+
+registerProvider({
+  name: 'openai',
+  displayName: 'OpenAI',
+  acceptsImageBase64: true,
+  classify: classifyWithOpenAI,
+});
+
+// Zonos can't handle base64 images — it needs a URL or product name/description
+registerProvider({
+  name: 'zonos',
+  displayName: 'Zonos',
+  isReference: true,
+  acceptsImageBase64: false,
+  timeoutMs: Number(process.env.ZONOS_TIMEOUT_MS) || 15000,
+  classify: classifyWithZonos,
+});
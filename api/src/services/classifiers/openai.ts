@@ -1,35 +1,18 @@
-import OpenAI from 'openai';
+import OpenAI, { type ClientOptions } from 'openai';
 import type { ClassificationInput, ClassificationResult } from '../../types/classification.js';
-
-const HS_CODE_SYSTEM_PROMPT = `You are an expert customs classification specialist with deep knowledge of the Harmonized System (HS) codes used for international trade.
-
-Your task is to analyze product images and descriptions to determine the most accurate HS code for customs classification.
-
-When classifying products:
-1. Identify the product type, material composition, and intended use
-2. Consider the General Rules of Interpretation (GRI)
-3. Provide the most specific HS code possible (6-10 digits)
-4. For EU/France imports, provide the 8-digit CN (Combined Nomenclature) code when possible
-
-Response format (JSON only, no markdown):
-{
-  "hsCode": "XXXX.XX.XXXX",
-  "hsCode6": "XXXX.XX",
-  "hsCode8": "XXXX.XX.XX",
-  "description": "Official HS description for this code",
-  "confidence": 0.85,
-  "reasoning": "Brief explanation of classification logic",
-  "productIdentified": "What product you identified in the image"
-}
-
-Be precise and conservative with confidence scores. Only high confidence (>0.8) for clear, unambiguous products.`;
+import { classificationCodes } from '../hs/index.js';
+import { rankAlternatives } from './candidates.js';
+import { CLASSIFICATION_OUTPUT, describeOutputError, modelParams, openaiStructured, resolveModel } from '../llm/index.js';
+import { providerApiKey, sdkTransport } from '../recording/index.js';
+import { resolvePrompt } from '../prompts/index.js';
 
 export async function classifyWithOpenAI(
   input: ClassificationInput
 ): Promise<ClassificationResult> {
   const startTime = Date.now();
+  const settings = resolveModel('openai', input.models?.openai);
 
-  const apiKey = process.env.OPENAI_API_KEY;
+  const apiKey = providerApiKey('OPENAI_API_KEY');
   if (!apiKey) {
     return {
       provider: 'openai',
@@ -37,12 +20,13 @@ export async function classifyWithOpenAI(
       hsCode6: '',
       description: '',
       confidence: 0,
+      model: settings.model,
       latencyMs: Date.now() - startTime,
       error: 'OPENAI_API_KEY not configured',
     };
   }
 
-  const client = new OpenAI({ apiKey });
+  const client = new OpenAI({ apiKey, ...sdkTransport<ClientOptions['fetch']>('openai') });
 
   try {
     const content: OpenAI.Chat.ChatCompletionContentPart[] = [];
@@ -59,7 +43,7 @@ export async function classifyWithOpenAI(
       textPrompt += `Origin Country: ${input.originCountry}\n`;
     }
     textPrompt += `\nDestination: ${input.shipToCountry || 'France (FR)'}\n`;
-    textPrompt += '\nProvide the HS code classification in JSON format only (no markdown code blocks).';
+    textPrompt += '\nRecord the HS code classification.';
 
     content.push({ type: 'text', text: textPrompt });
 
@@ -82,40 +66,50 @@ export async function classifyWithOpenAI(
       });
     }
 
-    const response = await client.chat.completions.create({
-      model: 'gpt-4o',
-      max_tokens: 1024,
-      messages: [
-        { role: 'system', content: HS_CODE_SYSTEM_PROMPT },
-        { role: 'user', content },
-      ],
-    });
+    const prompt = resolvePrompt('openai', input.promptVersions?.openai);
+    const result = await openaiStructured(
+      client,
+      {
+        ...modelParams(settings),
+        messages: [
+          { role: 'system', content: prompt.system },
+          { role: 'user', content },
+        ],
+      },
+      CLASSIFICATION_OUTPUT
+    );
 
     const latencyMs = Date.now() - startTime;
 
-    const textResponse = response.choices[0]?.message?.content;
-    if (!textResponse) {
-      throw new Error('No response from OpenAI');
-    }
-
-    // Parse JSON from response (handle potential markdown code blocks)
-    const cleanedResponse = textResponse.replace(/```json\n?|\n?```/g, '');
-    const jsonMatch = cleanedResponse.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('Could not parse JSON from response');
+    if (!result.ok) {
+      return {
+        provider: 'openai',
+        hsCode: '',
+        hsCode6: '',
+        description: '',
+        confidence: 0,
+        promptVersion: prompt.version,
+        model: settings.model,
+        usage: result.usage,
+        latencyMs,
+        error: describeOutputError(result.error),
+        outputError: result.error,
+      };
     }
 
-    const parsed = JSON.parse(jsonMatch[0]);
-
+    const parsed = result.data;
     return {
       provider: 'openai',
-      hsCode: parsed.hsCode?.replace(/\./g, '') || '',
-      hsCode6: parsed.hsCode6?.replace(/\./g, '') || parsed.hsCode?.replace(/\./g, '').slice(0, 6) || '',
-      hsCode8: parsed.hsCode8?.replace(/\./g, ''),
-      description: parsed.description || '',
-      confidence: parsed.confidence || 0.5,
+      ...classificationCodes(parsed),
+      description: parsed.description,
+      confidence: parsed.confidence,
+      promptVersion: prompt.version,
+      model: settings.model,
       reasoning: parsed.reasoning,
+      productIdentified: parsed.productIdentified,
+      alternatives: rankAlternatives(parsed.hsCode, parsed.alternatives),
       rawResponse: parsed,
+      ...(result.usage && { usage: result.usage }),
       latencyMs,
     };
   } catch (error) {
@@ -125,6 +119,7 @@ export async function classifyWithOpenAI(
       hsCode6: '',
       description: '',
       confidence: 0,
+      model: settings.model,
       latencyMs: Date.now() - startTime,
       error: error instanceof Error ? error.message : 'Unknown error',
     };
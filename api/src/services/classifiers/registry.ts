@@ -0,0 +1,37 @@
+import type { ClassifierProvider, ProviderName } from '../../types/classification.js';
+
+// Registration order is significant: it is the default run order and the
+// order used when a fallback HS code is needed for the reference duty.
+const providers: Map<ProviderName, ClassifierProvider> = new Map();
+
+export function registerProvider(provider: ClassifierProvider): void {
+  if (providers.has(provider.name)) {
+    throw new Error(`Classifier provider "${provider.name}" is already registered`);
+  }
+  if (provider.isReference && getReferenceProvider()) {
+    throw new Error(
+      `Cannot register "${provider.name}" as reference: "${getReferenceProvider()?.name}" already is`
+    );
+  }
+  providers.set(provider.name, provider);
+}
+
+export function unregisterProvider(name: ProviderName): boolean {
+  return providers.delete(name);
+}
+
+export function getProvider(name: ProviderName): ClassifierProvider | undefined {
+  return providers.get(name);
+}
+
+export function listProviders(): ClassifierProvider[] {
+  return Array.from(providers.values());
+}
+
+export function getProviderNames(): ProviderName[] {
+  return Array.from(providers.keys());
+}
+
+export function getReferenceProvider(): ClassifierProvider | undefined {
+  return listProviders().find((p) => p.isReference);
+}
@@ -0,0 +1,131 @@
+import type {
+  ClassificationInput,
+  ClassificationResult,
+  ClassifierProvider,
+  ProviderRecord,
+} from '../../types/classification.js';
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.CLASSIFIER_TIMEOUT_MS) || 30000;
+
+function failedResult(provider: ClassifierProvider, latencyMs: number, error: string): ClassificationResult {
+  return {
+    provider: provider.name,
+    hsCode: '',
+    hsCode6: '',
+    description: '',
+    confidence: 0,
+    latencyMs,
+    error,
+  };
+}
+
+/**
+ * Run one provider against its deadline. The underlying request is not cancelled,
+ * but the comparison stops waiting for it.
+ */
+async function classifyWithDeadline(
+  provider: ClassifierProvider,
+  input: ClassificationInput,
+  timeoutMs: number
+): Promise<ClassificationResult> {
+  const startTime = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  const deadline = new Promise<ClassificationResult>((resolve) => {
+    timer = setTimeout(
+      () => resolve(failedResult(provider, Date.now() - startTime, `Timed out after ${timeoutMs}ms`)),
+      timeoutMs
+    );
+  });
+
+  try {
+    return await Promise.race([
+      provider.classify(input).catch((error) =>
+        failedResult(provider, Date.now() - startTime, error instanceof Error ? error.message : 'Unknown error')
+      ),
+      deadline,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Text-only providers can't see a base64-only image and need another provider's identification */
+function needsIdentification(provider: ClassifierProvider, input: ClassificationInput): boolean {
+  return !provider.acceptsImageBase64 && !input.imageUrl && !input.productName && !input.productDescription;
+}
+
+/**
+ * Run providers concurrently, reporting each result through `onResult` as it lands. A provider that needs a product identification starts
+ * as soon as the first image-capable provider supplies one (or all of them have finished
+ * without one); everything else starts immediately.
+ */
+export async function runClassifiers(
+  providers: ClassifierProvider[],
+  input: ClassificationInput,
+  onResult?: (result: ClassificationResult) => void
+): Promise<ProviderRecord<ClassificationResult>> {
+  const classifications: ProviderRecord<ClassificationResult> = {};
+
+  const run = (provider: ClassifierProvider, providerInput: ClassificationInput) => {
+    const timeoutMs = provider.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    console.log(`[Compare] Running ${provider.displayName} classification (deadline ${timeoutMs}ms)...`);
+    return classifyWithDeadline(provider, providerInput, timeoutMs).then((result) => {
+      classifications[provider.name] = result;
+      console.log(`[Compare] ${provider.displayName} result:`, {
+        hsCode: result.hsCode6,
+        confidence: result.confidence,
+        latencyMs: result.latencyMs,
+        productIdentified: result.productIdentified,
+        error: result.error,
+      });
+      onResult?.(result);
+      return result;
+    });
+  };
+
+  const dependent = providers.filter((p) => needsIdentification(p, input));
+  const independent = providers.filter((p) => !dependent.includes(p));
+  const started = independent.map((provider) => run(provider, input));
+
+  if (dependent.length > 0) {
+    const identification = firstIdentification(
+      independent.flatMap((provider, i) => (provider.acceptsImageBase64 ? [started[i]] : []))
+    );
+
+    started.push(
+      ...dependent.map(async (provider) => {
+        const identifier = await identification;
+        const providerInput = { ...input };
+        if (identifier) {
+          providerInput.productName = identifier.productIdentified;
+          providerInput.productDescription = identifier.description || undefined;
+          console.log(
+            `[Compare] Using ${identifier.provider} product ID for ${provider.displayName}:`,
+            identifier.productIdentified
+          );
+        }
+        return run(provider, providerInput);
+      })
+    );
+  }
+
+  await Promise.all(started);
+
+  // Keep registration order in the result regardless of completion order
+  return Object.fromEntries(
+    providers.filter((p) => classifications[p.name]).map((p) => [p.name, classifications[p.name]])
+  );
+}
+
+function firstIdentification(runs: Promise<ClassificationResult>[]): Promise<ClassificationResult | undefined> {
+  return new Promise((resolve) => {
+    let pending = runs.length;
+    if (pending === 0) resolve(undefined);
+    for (const run of runs) {
+      run.then((result) => {
+        if (result.productIdentified && !result.error) resolve(result);
+        if (--pending === 0) resolve(undefined);
+      });
+    }
+  });
+}
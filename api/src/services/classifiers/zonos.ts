@@ -1,6 +1,35 @@
-import type { ClassificationInput, ClassificationResult, DutyCalculation } from '../../types/classification.js';
+import type {
+  ClassificationInput,
+  ClassificationResult,
+  DutyCalculation,
+  DutyEngineOptions,
+  Incoterm,
+} from '../../types/classification.js';
+import type { ShipmentDutyCalculation, ShipmentLineItem } from '../../types/shipment.js';
+import { classificationCodes } from '../hs/index.js';
+import { rankAlternatives } from './candidates.js';
+import { formatTaxLabel, resolveTaxRate } from '../tax/index.js';
+import { applyDeMinimis, evaluateDeMinimis } from '../duty/deMinimis.js';
+import {
+  failedShipment,
+  formatRate,
+  lineValue,
+  round2,
+  summarizeShipment,
+  toDutyCalculation,
+} from '../duty/shipment.js';
+import { assessCustomsValue, hasFreightCosts, lineCustomsValues } from '../duty/valuation.js';
+import { assessPreference } from '../duty/preferences.js';
+import { findSchedule, lookupRate } from '../duty/tariffSchedules.js';
+import { providerApiKey, providerFetch } from '../recording/index.js';
 
 const ZONOS_API_BASE = 'https://api.zonos.com';
+const zonosFetch = providerFetch('zonos');
+
+/** GraphQL endpoint; ZONOS_API_URL points it at a stand-in such as `npm run mock:zonos` */
+function zonosGraphqlUrl(): string {
+  return `${(process.env.ZONOS_API_URL || ZONOS_API_BASE).replace(/\/+$/, '')}/graphql`;
+}
 
 interface ZonosClassifyResponse {
   data?: {
@@ -20,7 +49,7 @@ export async function classifyWithZonos(
 ): Promise<ClassificationResult> {
   const startTime = Date.now();
 
-  const apiKey = process.env.ZONOS_API_KEY;
+  const apiKey = providerApiKey('ZONOS_API_KEY');
   if (!apiKey) {
     return {
       provider: 'zonos',
@@ -60,7 +89,7 @@ export async function classifyWithZonos(
 
     console.log('Zonos request:', JSON.stringify(variables, null, 2));
 
-    const response = await fetch(`${ZONOS_API_BASE}/graphql`, {
+    const response = await zonosFetch(zonosGraphqlUrl(), {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -84,20 +113,25 @@ export async function classifyWithZonos(
       throw new Error(result.errors[0].message);
     }
 
-    const topResult = result.data?.classificationsCalculate?.[0];
+    // Further entries, when Zonos returns any, are its less likely codes
+    const [topResult, ...others] = result.data?.classificationsCalculate ?? [];
     if (!topResult?.hsCode) {
       throw new Error('No classification results from Zonos');
     }
 
-    const hsCode = topResult.hsCode.code.replace(/\./g, '');
-
     return {
       provider: 'zonos',
-      hsCode,
-      hsCode6: hsCode.slice(0, 6),
-      hsCode8: hsCode.length >= 8 ? hsCode.slice(0, 8) : undefined,
+      ...classificationCodes({ hsCode: topResult.hsCode.code }),
       description: topResult.hsCode.description?.full || '',
       confidence: topResult.confidence || 0.85,
+      alternatives: rankAlternatives(
+        topResult.hsCode.code,
+        others.flatMap((other) =>
+          other.hsCode
+            ? [{ hsCode: other.hsCode.code, description: other.hsCode.description?.full, confidence: other.confidence }]
+            : []
+        )
+      ),
       rawResponse: result,
       latencyMs,
     };
@@ -114,28 +148,30 @@ export async function classifyWithZonos(
   }
 }
 
-export async function calculateDutyWithZonos(
-  hsCode: string,
-  productValue: number,
+interface ZonosCharge {
+  amount: number;
+  currency?: string;
+  note?: string;
+  item?: { id: string } | null;
+}
+
+/**
+ * Landed cost for a multi-item consignment through the Zonos workflow mutations.
+ * Charges Zonos attributes to an item are assigned to that line; any others are
+ * spread across lines in proportion to line value.
+ */
+export async function calculateShipmentWithZonos(
+  items: ShipmentLineItem[],
   currency: string = 'EUR',
   originCountry: string = 'US',
-  shipToCountry: string = 'US'
-): Promise<DutyCalculation> {
+  shipToCountry: string = 'US',
+  options: DutyEngineOptions = {}
+): Promise<ShipmentDutyCalculation> {
   const startTime = Date.now();
 
-  const apiKey = process.env.ZONOS_API_KEY;
+  const apiKey = providerApiKey('ZONOS_API_KEY');
   if (!apiKey) {
-    return {
-      provider: 'zonos',
-      hsCode,
-      duties: { amount: 0, rate: '0%', type: 'duty' },
-      vat: { amount: 0, rate: '0%' },
-      totalLandedCost: productValue,
-      breakdown: [],
-      currency,
-      latencyMs: Date.now() - startTime,
-      error: 'ZONOS_API_KEY not configured',
-    };
+    return failedShipment('zonos', items, currency, originCountry, shipToCountry, startTime, 'ZONOS_API_KEY not configured');
   }
 
   try {
@@ -167,21 +203,31 @@ export async function calculateDutyWithZonos(
             amount
             currency
             note
+            item { id }
           }
           taxes {
             amount
             currency
             note
+            item { id }
           }
           fees {
             amount
             currency
             note
+            item { id }
           }
         }
       }
     `;
 
+    const claimPreference = options.claimPreference ?? true;
+
+    // Send each item at its dutiable value so freight and insurance follow the destination's basis
+    const productValue = round2(items.reduce((total, item) => total + lineValue(item), 0));
+    const valuation = hasFreightCosts(options) ? assessCustomsValue(productValue, options, shipToCountry) : undefined;
+    const customsValues = lineCustomsValues(items.map(lineValue), valuation);
+
     // Map country codes to minimal address info for Zonos
     const originAddress = getCountryAddress(originCountry);
     const destAddress = getCountryAddress(shipToCountry);
@@ -215,26 +261,27 @@ export async function calculateDutyWithZonos(
           type: 'DESTINATION',
         },
       ],
-      items: [
-        {
-          amount: productValue,
-          currencyCode: currency,
-          quantity: 1,
-          countryOfOrigin: originCountry,
-          hsCode: hsCode,
-          description: `Product classified as HS ${hsCode}`,
-        },
-      ],
+      items: items.map((item, i) => ({
+        amount: round2(customsValues[i] / item.quantity),
+        currencyCode: currency,
+        quantity: item.quantity,
+        countryOfOrigin: item.originCountry || originCountry,
+        hsCode: item.hsCode,
+        description: item.description || `Product classified as HS ${item.hsCode}`,
+        ...(item.weightKg && {
+          measurements: [{ type: 'WEIGHT', value: item.weightKg, unitOfMeasure: 'KILOGRAM' }],
+        }),
+      })),
       landedCostConfig: {
-        calculationMethod: 'DDP_PREFERRED',
+        calculationMethod: zonosCalculationMethod(options.incoterm),
         endUse: 'NOT_FOR_RESALE',
-        tariffRate: 'ZONOS_PREFERRED',
+        tariffRate: claimPreference ? 'ZONOS_PREFERRED' : 'ZONOS_MAXIMUM',
       },
     };
 
     console.log('Zonos Landed Cost request:', JSON.stringify(variables, null, 2));
 
-    const response = await fetch(`${ZONOS_API_BASE}/graphql`, {
+    const response = await zonosFetch(zonosGraphqlUrl(), {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -257,26 +304,52 @@ export async function calculateDutyWithZonos(
     // Zonos returns partial errors (e.g., DHL shipping failures) alongside valid data.
     const landedCostResults = result.data?.landedCostCalculateWorkflow;
 
+    const baseLines = items.map((item, index) => ({
+      index,
+      hsCode: item.hsCode,
+      description: item.description,
+      quantity: item.quantity,
+      unitValue: item.unitValue,
+      lineValue: lineValue(item),
+      customsValue: customsValues[index],
+      originCountry: item.originCountry || originCountry,
+      weightKg: item.weightKg,
+    }));
+
     // Check for intra-EU / domestic shipment (no duties apply)
     const isDomestic = result.errors?.some(
       (e: { message: string }) => e.message?.includes('Domestic shipments are not allowed')
     );
     if (isDomestic || !landedCostResults || landedCostResults.length === 0) {
       if (isDomestic) {
-        // Intra-EU trade: no customs duties
-        return {
-          provider: 'zonos',
-          hsCode,
-          duties: { amount: 0, rate: '0%', type: 'intra_eu' },
-          vat: { amount: productValue * 0.2, rate: '20%' },
-          totalLandedCost: productValue + (productValue * 0.2),
-          breakdown: [
-            { type: 'Product', amount: productValue },
-            { type: 'VAT (Intra-EU)', amount: productValue * 0.2, rate: '20%' },
-          ],
-          currency,
-          latencyMs: Date.now() - startTime,
-        };
+        // Intra-EU trade: no customs duties, destination VAT at the rate for each line's HS code
+        const taxLabels = new Set<string>();
+        const lines = baseLines.map((line) => {
+          const tax = resolveTaxRate(shipToCountry, line.hsCode);
+          if (!tax) {
+            throw new Error(`Domestic shipment to ${shipToCountry} but no VAT rate is configured`);
+          }
+          taxLabels.add(`${formatTaxLabel(tax)} (Intra-EU)`);
+          return {
+            ...line,
+            duties: { amount: 0, rate: '0%' },
+            taxes: { amount: line.customsValue * (tax.rate / 100), rate: `${tax.rate}%` },
+            fees: 0,
+          };
+        });
+        return summarizeShipment(
+          {
+            engine: 'zonos',
+            originCountry,
+            shipToCountry,
+            currency,
+            dutyType: 'intra_eu',
+            lines,
+            valuation,
+            latencyMs: Date.now() - startTime,
+          },
+          taxLabels.size === 1 ? [...taxLabels][0] : 'VAT (Intra-EU)'
+        );
       }
       const errorMsg = result.errors?.length
         ? result.errors.map((e: { message: string }) => e.message).join('; ')
@@ -286,60 +359,96 @@ export async function calculateDutyWithZonos(
 
     // Use the first landed cost result (cheapest shipping option)
     const landedCost = landedCostResults[0];
+    const itemIds: string[] = (result.data?.itemCreateWorkflow || []).map((i: { id: string }) => i.id);
+
+    const duties = allocateCharges(landedCost.duties, itemIds, baseLines);
+    const taxes = allocateCharges(landedCost.taxes, itemIds, baseLines);
+    const fees = allocateCharges(landedCost.fees, itemIds, baseLines);
+
+    const lines = baseLines.map((line, i) => {
+      const preference = linePreference(line.hsCode, line.originCountry, shipToCountry, claimPreference);
+      return {
+        ...line,
+        duties: { amount: duties[i], rate: formatRate(duties[i], line.customsValue) },
+        taxes: { amount: taxes[i], rate: formatRate(taxes[i], line.customsValue) },
+        fees: fees[i],
+        ...(preference && { preference }),
+      };
+    });
 
-    // Sum up duties, taxes, fees
-    const dutiesTotal = landedCost.duties?.reduce(
-      (sum: number, d: { amount: number }) => sum + (d.amount || 0), 0
-    ) ?? 0;
-    const taxesTotal = landedCost.taxes?.reduce(
-      (sum: number, t: { amount: number }) => sum + (t.amount || 0), 0
-    ) ?? 0;
-    const feesTotal = landedCost.fees?.reduce(
-      (sum: number, f: { amount: number }) => sum + (f.amount || 0), 0
-    ) ?? 0;
-
-    const totalLandedCost = productValue + dutiesTotal + taxesTotal + feesTotal;
-
-    // Calculate rates as percentages of product value
-    const dutyRate = productValue > 0 ? ((dutiesTotal / productValue) * 100).toFixed(1) : '0';
-    const vatRate = productValue > 0 ? ((taxesTotal / productValue) * 100).toFixed(1) : '0';
-
-    const breakdown: DutyCalculation['breakdown'] = [
-      { type: 'Product', amount: productValue },
-    ];
-    if (dutiesTotal > 0) {
-      breakdown.push({ type: 'Customs Duty', amount: dutiesTotal, rate: `${dutyRate}%` });
-    }
-    if (taxesTotal > 0) {
-      breakdown.push({ type: 'VAT/Tax', amount: taxesTotal, rate: `${vatRate}%` });
-    }
-    if (feesTotal > 0) {
-      breakdown.push({ type: 'Fees', amount: feesTotal });
-    }
-
-    return {
-      provider: 'zonos',
-      hsCode,
-      duties: { amount: dutiesTotal, rate: `${dutyRate}%`, type: 'customs_duty' },
-      vat: { amount: taxesTotal, rate: `${vatRate}%` },
-      totalLandedCost,
-      breakdown,
+    const shipment = summarizeShipment({
+      engine: 'zonos',
+      originCountry,
+      shipToCountry,
       currency,
+      dutyType: 'customs_duty',
+      lines,
+      valuation,
       latencyMs,
-    };
+    });
+
+    // Zonos applies its own thresholds; enforce ours too so the reason is always reported
+    const deMinimis = evaluateDeMinimis(shipment.totals.productValue, currency, originCountry, shipToCountry);
+    return deMinimis ? applyDeMinimis(shipment, deMinimis) : shipment;
   } catch (error) {
-    return {
-      provider: 'zonos',
-      hsCode,
-      duties: { amount: 0, rate: '0%', type: 'duty' },
-      vat: { amount: 0, rate: '0%' },
-      totalLandedCost: productValue,
-      breakdown: [],
-      currency,
-      latencyMs: Date.now() - startTime,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+    return failedShipment('zonos', items, currency, originCountry, shipToCountry, startTime, error);
+  }
+}
+
+/**
+ * Zonos does not report which rate it used, so describe the agreement that covers the
+ * line, with the MFN rate from the bundled schedule where there is one.
+ */
+function linePreference(hsCode: string, originCountry: string, shipToCountry: string, claim: boolean) {
+  const schedule = findSchedule(shipToCountry);
+  const mfnRate = schedule ? lookupRate(schedule, hsCode)?.rate.rate : undefined;
+  return assessPreference(hsCode, mfnRate, originCountry, shipToCountry, claim);
+}
+
+/** DDP unless the incoterm leaves import duties and taxes to the buyer */
+function zonosCalculationMethod(incoterm?: Incoterm): string {
+  if (!incoterm) return 'DDP_PREFERRED';
+  return incoterm === 'DDP' ? 'DDP_ONLY' : 'DAP';
+}
+
+function allocateCharges(
+  charges: ZonosCharge[] | undefined,
+  itemIds: string[],
+  lines: Array<{ lineValue: number }>
+): number[] {
+  const allocated = lines.map(() => 0);
+  const totalValue = lines.reduce((sum, line) => sum + line.lineValue, 0);
+
+  for (const charge of charges || []) {
+    const amount = charge.amount || 0;
+    const index = charge.item?.id ? itemIds.indexOf(charge.item.id) : -1;
+    if (index >= 0 && index < lines.length) {
+      allocated[index] += amount;
+    } else {
+      lines.forEach((line, i) => {
+        allocated[i] += totalValue > 0 ? amount * (line.lineValue / totalValue) : amount / lines.length;
+      });
+    }
   }
+  return allocated.map(round2);
+}
+
+export async function calculateDutyWithZonos(
+  hsCode: string,
+  productValue: number,
+  currency: string = 'EUR',
+  originCountry: string = 'US',
+  shipToCountry: string = 'US',
+  options: DutyEngineOptions = {}
+): Promise<DutyCalculation> {
+  const shipment = await calculateShipmentWithZonos(
+    [{ hsCode, quantity: 1, unitValue: productValue }],
+    currency,
+    originCountry,
+    shipToCountry,
+    options
+  );
+  return toDutyCalculation(shipment, hsCode, 'zonos');
 }
 
 // Minimal address data per country for Zonos API requirements
@@ -2,26 +2,56 @@ import { v4 as uuidv4 } from 'uuid';
 import type {
   ClassificationInput,
   ClassificationResult,
+  ComparisonProgressEvent,
   ComparisonRequest,
   ComparisonResult,
   DutyCalculation,
+  GroundTruthLabel,
+  PairwiseMatrix,
+  ProviderName,
+  ProviderRecord,
 } from '../types/classification.js';
 import {
-  classifyWithAnthropic,
-  classifyWithOpenAI,
-  classifyWithZonos,
-  calculateDutyWithZonos,
+  getProvider,
+  getProviderNames,
+  getReferenceProvider,
+  listProviders,
+  runClassifiers,
 } from './classifiers/index.js';
-
-// In-memory storage for comparison results (replace with DB in production)
-const comparisonResults: Map<string, ComparisonResult> = new Map();
-
-export async function runComparison(request: ComparisonRequest): Promise<ComparisonResult> {
+import { getComparisonRepository } from './storage/index.js';
+import { calculateDuty as calculateDutyWithEngine, convertFreightCosts } from './duty/index.js';
+import { toCustomsValue } from './fx/index.js';
+import { adjudicateConsensus, voteConsensus } from './consensus/index.js';
+import { calibrationStats, getReliabilityCurves, invalidateCalibration, withCalibratedConfidence } from './calibration/index.js';
+import type { ProviderCalibration } from '../types/calibration.js';
+import type { PromptVersionStats } from '../types/prompts.js';
+import { MODEL_ROLES, type ModelStats } from '../types/models.js';
+import { assignPromptVersions } from './prompts/index.js';
+import { resolveModel } from './llm/index.js';
+import { assessableLevels, matchesAtLevel, sameHs6, sameHsCode } from './hs/index.js';
+import { HS_MATCH_LEVELS, type HsMatchLevel } from '../types/hs.js';
+
+export type ProgressListener = (event: ComparisonProgressEvent) => void;
+
+export async function runComparison(
+  request: ComparisonRequest,
+  onProgress?: ProgressListener
+): Promise<ComparisonResult> {
   const id = uuidv4();
   const timestamp = new Date().toISOString();
 
-  const providers = request.providers || ['anthropic', 'openai', 'zonos'];
+  const requested = request.providers || getProviderNames();
+  const providers = listProviders().filter((p) => requested.includes(p.name));
   const shipToCountry = request.shipToCountry || 'US';
+  const promptVersions = Object.fromEntries(
+    Object.entries(assignPromptVersions(id, request.promptVersions)).filter(([name]) => requested.includes(name))
+  );
+  // Resolved now, so the stored input says exactly what ran
+  const models = Object.fromEntries(
+    MODEL_ROLES.filter(
+      (role) => requested.includes(role) || (role === 'adjudicator' && request.consensus === 'adjudicate')
+    ).map((role) => [role, resolveModel(role, request.models?.[role])])
+  );
 
   const input: ClassificationInput = {
     imageBase64: request.imageBase64,
@@ -30,129 +60,105 @@ export async function runComparison(request: ComparisonRequest): Promise<Compari
     productDescription: request.productDescription,
     originCountry: request.originCountry,
     shipToCountry,
+    promptVersions,
+    models,
   };
 
-  // Step 1: Run Anthropic FIRST so we can use its output for Zonos
-  const classifications: ComparisonResult['classifications'] = {};
-
-  if (providers.includes('anthropic')) {
-    console.log('[Compare] Running Anthropic classification...');
-    classifications.anthropic = await classifyWithAnthropic(input);
-    console.log('[Compare] Anthropic result:', {
-      hsCode: classifications.anthropic.hsCode6,
-      confidence: classifications.anthropic.confidence,
-      estimatedValue: classifications.anthropic.estimatedValueEUR,
-      productIdentified: (classifications.anthropic.rawResponse as Record<string, unknown>)?.productIdentified,
-      error: classifications.anthropic.error,
-    });
-  }
-
-  // Step 2: Run Zonos classification with Anthropic's product identification as fallback
-  // Zonos can't handle base64 images — it needs a URL or product name/description
-  if (providers.includes('zonos')) {
-    const zonosInput = { ...input };
-
-    // If we only have base64 (no URL, no product name), use Anthropic's identified product
-    const hasImageUrl = !!input.imageUrl;
-    const hasProductName = !!input.productName;
-    const hasProductDescription = !!input.productDescription;
-
-    if (!hasImageUrl && !hasProductName && !hasProductDescription) {
-      const anthropicProduct = (classifications.anthropic?.rawResponse as Record<string, unknown> | undefined)?.productIdentified;
-      const anthropicDesc = classifications.anthropic?.description;
-      if (anthropicProduct) {
-        zonosInput.productName = anthropicProduct as string;
-        console.log('[Compare] Using Anthropic product ID for Zonos:', anthropicProduct);
-      }
-      if (anthropicDesc) {
-        zonosInput.productDescription = anthropicDesc as string;
-      }
-    }
-
-    console.log('[Compare] Running Zonos classification...');
-    classifications.zonos = await classifyWithZonos(zonosInput);
-    console.log('[Compare] Zonos result:', {
-      hsCode: classifications.zonos.hsCode6,
-      confidence: classifications.zonos.confidence,
-      error: classifications.zonos.error,
-    });
-  }
-
-  // Run OpenAI in parallel if requested (non-blocking)
-  if (providers.includes('openai')) {
-    classifications.openai = await classifyWithOpenAI(input);
+  // Steps 1-2: Run providers concurrently; text-only providers that need the
+  // image identified wait for the first image-capable provider to do so
+  onProgress?.({ type: 'started', id, providers: providers.map((p) => p.name) });
+  const curves = await getReliabilityCurves();
+  const classifications: ComparisonResult['classifications'] = await runClassifiers(
+    providers,
+    input,
+    ({ rawResponse: _raw, ...result }) =>
+      onProgress?.({ type: 'classification', provider: result.provider, result: withCalibratedConfidence(result, curves) })
+  );
+  for (const [name, result] of Object.entries(classifications)) {
+    classifications[name] = withCalibratedConfidence(result, curves);
   }
 
-  // Step 3: Determine product value
+  // Step 3: Determine product value and express it in the destination's customs currency
   let productValue = request.productValue;
+  let valueCurrency = request.currency || 'EUR';
   let isEstimatedValue = false;
 
-  if (!productValue && classifications.anthropic?.estimatedValueEUR) {
-    productValue = classifications.anthropic.estimatedValueEUR;
-    isEstimatedValue = true;
-    console.log('[Compare] Using AI-estimated value:', productValue);
+  if (!productValue) {
+    const estimate = estimateProductValue(classifications);
+    if (estimate) {
+      productValue = estimate.value;
+      valueCurrency = 'EUR'; // Classifiers estimate retail value in EUR
+      isEstimatedValue = true;
+      console.log(`[Compare] Using AI-estimated value from ${estimate.provider}:`, productValue);
+    }
   }
 
-  // Also handle case where estimatedValueEUR was returned as part of rawResponse but not parsed
-  if (!productValue && classifications.anthropic?.rawResponse) {
-    const raw = classifications.anthropic.rawResponse as Record<string, unknown>;
-    const rawValue = raw.estimatedValueEUR;
-    if (typeof rawValue === 'number' && rawValue > 0) {
-      productValue = rawValue;
-      isEstimatedValue = true;
-      console.log('[Compare] Using value from rawResponse:', productValue);
-    } else if (typeof rawValue === 'string') {
-      const parsed = parseFloat(rawValue);
-      if (!isNaN(parsed) && parsed > 0) {
-        productValue = parsed;
-        isEstimatedValue = true;
-        console.log('[Compare] Parsed string value from rawResponse:', productValue);
-      }
+  let customsValue: ComparisonResult['customsValue'];
+  if (productValue && productValue > 0) {
+    try {
+      customsValue = toCustomsValue(productValue, valueCurrency, shipToCountry);
+    } catch (error) {
+      console.warn('[Compare] Could not convert to customs currency:', error instanceof Error ? error.message : error);
+      customsValue = { amount: productValue, currency: valueCurrency };
     }
   }
 
+  onProgress?.({ type: 'value', productValue, currency: valueCurrency, isEstimatedValue, customsValue });
+
   // Step 4: Calculate duties for every provider with a valid HS code
   let dutyCalculations: ComparisonResult['dutyCalculations'] | undefined;
+  const dutyEngine = request.dutyEngine || 'zonos';
 
-  if (productValue && productValue > 0) {
-    console.log('[Compare] Calculating duties with value:', productValue);
+  if (customsValue) {
+    console.log(
+      `[Compare] Calculating duties (${dutyEngine}) with value:`,
+      customsValue.amount,
+      customsValue.currency
+    );
     dutyCalculations = {};
 
     const dutyPromises: Promise<DutyCalculation>[] = [];
-    const dutyProviders: Array<'anthropic' | 'openai' | 'zonos'> = [];
+    const dutyProviders: ProviderName[] = [];
+    const dutyValue = customsValue;
+
+    const calculateDuty = (provider: ProviderName, hsCode: string) =>
+      calculateDutyWithEngine(
+        dutyEngine,
+        hsCode,
+        dutyValue.amount,
+        dutyValue.currency,
+        request.originCountry || 'US',
+        shipToCountry,
+        // Costs are quoted in the request currency, like the product value
+        {
+          displayCurrency: request.displayCurrency,
+          claimPreference: request.claimPreference,
+          ...convertFreightCosts(request, dutyValue.fx),
+        }
+      ).then((duty) => {
+        const calculation = { ...duty, provider, ...(dutyValue.fx && { fx: dutyValue.fx }) };
+        onProgress?.({ type: 'duty', provider, calculation });
+        return calculation;
+      });
 
-    for (const provider of ['anthropic', 'openai', 'zonos'] as const) {
-      const classification = classifications[provider];
-      if (classification?.hsCode && !classification.error) {
+    for (const [provider, classification] of Object.entries(classifications)) {
+      if (classification.hsCode && !classification.error) {
         dutyProviders.push(provider);
-        dutyPromises.push(
-          calculateDutyWithZonos(
-            classification.hsCode,
-            productValue,
-            request.currency || 'EUR',
-            request.originCountry || 'US',
-            shipToCountry
-          ).then((duty) => ({ ...duty, provider }))
-        );
+        dutyPromises.push(calculateDuty(provider, classification.hsCode));
       }
     }
 
-    // If Zonos classification failed but Anthropic succeeded,
-    // also calculate a "zonos" duty using Anthropic's HS code so user always sees duty
-    if (!classifications.zonos?.hsCode || classifications.zonos?.error) {
-      const anthropicHs = classifications.anthropic;
-      if (anthropicHs?.hsCode && !anthropicHs.error && !dutyProviders.includes('zonos')) {
-        console.log('[Compare] Zonos classification failed — using Anthropic HS code for Zonos duty calc');
-        dutyProviders.push('zonos');
-        dutyPromises.push(
-          calculateDutyWithZonos(
-            anthropicHs.hsCode,
-            productValue,
-            request.currency || 'EUR',
-            request.originCountry || 'US',
-            shipToCountry
-          ).then((duty) => ({ ...duty, provider: 'zonos' as const }))
+    // If the reference classification failed but another provider succeeded,
+    // also calculate a reference duty using that HS code so the user always sees duty
+    const reference = getReferenceProvider();
+    if (reference && requested.includes(reference.name) && !dutyProviders.includes(reference.name)) {
+      const fallback = Object.values(classifications).find((c) => c.hsCode && !c.error);
+      if (fallback) {
+        console.log(
+          `[Compare] ${reference.displayName} classification failed — using ${fallback.provider} HS code for ${reference.displayName} duty calc`
         );
+        dutyProviders.push(reference.name);
+        dutyPromises.push(calculateDuty(reference.name, fallback.hsCode));
       }
     }
 
@@ -173,6 +179,13 @@ export async function runComparison(request: ComparisonRequest): Promise<Compari
   // Analyze results
   const analysis = analyzeResults(classifications, dutyCalculations);
 
+  // Step 5 (optional): One recommended classification from all providers
+  let consensus = request.consensus ? voteConsensus(classifications, request.consensus) : undefined;
+  if (consensus && request.consensus === 'adjudicate') {
+    consensus = await adjudicateConsensus(input, classifications, consensus);
+  }
+  if (consensus) onProgress?.({ type: 'consensus', consensus });
+
   const result: ComparisonResult = {
     id,
     timestamp,
@@ -180,81 +193,139 @@ export async function runComparison(request: ComparisonRequest): Promise<Compari
     productValue,
     isEstimatedValue,
     shipToCountry,
-    currency: request.currency || 'EUR',
+    currency: valueCurrency,
+    customsValue,
+    displayCurrency: request.displayCurrency,
+    dutyEngine,
     classifications,
     dutyCalculations,
     analysis,
+    ...(consensus && { consensus }),
   };
 
   // Store result
-  comparisonResults.set(id, result);
+  const repository = await getComparisonRepository();
+  await repository.save(result);
 
+  onProgress?.({ type: 'result', result });
   return result;
 }
 
-function analyzeResults(
+function estimateProductValue(
+  classifications: ComparisonResult['classifications']
+): { provider: ProviderName; value: number } | undefined {
+  for (const classification of Object.values(classifications)) {
+    if (classification.estimatedValueEUR) {
+      return { provider: classification.provider, value: classification.estimatedValueEUR };
+    }
+
+    // Also handle case where estimatedValueEUR was returned as part of rawResponse but not parsed
+    const raw = classification.rawResponse as Record<string, unknown> | undefined;
+    const rawValue = raw?.estimatedValueEUR;
+    if (typeof rawValue === 'number' && rawValue > 0) {
+      return { provider: classification.provider, value: rawValue };
+    }
+    if (typeof rawValue === 'string') {
+      const parsed = parseFloat(rawValue);
+      if (!isNaN(parsed) && parsed > 0) {
+        return { provider: classification.provider, value: parsed };
+      }
+    }
+  }
+  return undefined;
+}
+
+function buildMatrix<T>(
+  names: ProviderName[],
+  compare: (a: ProviderName, b: ProviderName) => T | undefined
+): PairwiseMatrix<T> {
+  const matrix: PairwiseMatrix<T> = {};
+  for (const a of names) {
+    matrix[a] = {};
+    for (const b of names) {
+      if (a === b) continue;
+      const value = compare(a, b);
+      if (value !== undefined) matrix[a][b] = value;
+    }
+  }
+  return matrix;
+}
+
+function isUsable(result: ClassificationResult | undefined): result is ClassificationResult {
+  return !!result && !result.error && !!result.hsCode;
+}
+
+export function analyzeResults(
   classifications: ComparisonResult['classifications'],
   dutyCalculations?: ComparisonResult['dutyCalculations']
 ): ComparisonResult['analysis'] {
-  const anthropic = classifications.anthropic;
-  const openai = classifications.openai;
-  const zonos = classifications.zonos;
+  const names = Object.keys(classifications);
+  const referenceName = getReferenceProvider()?.name;
+  const reference = referenceName ? classifications[referenceName] : undefined;
 
   // HS Code matching analysis
-  const hsCodeMatch = {
-    anthropicVsZonos: anthropic?.hsCode === zonos?.hsCode,
-    openaiVsZonos: openai?.hsCode === zonos?.hsCode,
-    anthropicVsOpenai: anthropic?.hsCode === openai?.hsCode,
-    hs6Match: {
-      anthropicVsZonos: anthropic?.hsCode6 === zonos?.hsCode6,
-      openaiVsZonos: openai?.hsCode6 === zonos?.hsCode6,
-      anthropicVsOpenai: anthropic?.hsCode6 === openai?.hsCode6,
-    },
-  };
+  const bothUsable = (a: ProviderName, b: ProviderName) =>
+    isUsable(classifications[a]) && isUsable(classifications[b]);
+  const hsCodeMatch = buildMatrix(
+    names,
+    (a, b) => bothUsable(a, b) && sameHsCode(classifications[a].hsCode, classifications[b].hsCode)
+  );
+  const hs6Match = buildMatrix(
+    names,
+    (a, b) => bothUsable(a, b) && sameHs6(classifications[a].hsCode, classifications[b].hsCode)
+  );
 
   // Confidence scores
-  const confidenceScores: ComparisonResult['analysis']['confidenceScores'] = {};
-  if (anthropic?.confidence) confidenceScores.anthropic = anthropic.confidence;
-  if (openai?.confidence) confidenceScores.openai = openai.confidence;
-  if (zonos?.confidence) confidenceScores.zonos = zonos.confidence;
+  const confidenceScores: ProviderRecord<number> = {};
+  for (const name of names) {
+    if (classifications[name].confidence) confidenceScores[name] = classifications[name].confidence;
+  }
 
   // Duty difference analysis
-  let dutyDifference: ComparisonResult['analysis']['dutyDifference'] | undefined;
+  let dutyDifference: PairwiseMatrix<number> | undefined;
   if (dutyCalculations) {
-    dutyDifference = {};
-    const anthropicDuty = dutyCalculations.anthropic?.totalLandedCost;
-    const openaiDuty = dutyCalculations.openai?.totalLandedCost;
-    const zonosDuty = dutyCalculations.zonos?.totalLandedCost;
-
-    if (anthropicDuty && zonosDuty) {
-      dutyDifference.anthropicVsZonos = Math.abs(anthropicDuty - zonosDuty);
-    }
-    if (openaiDuty && zonosDuty) {
-      dutyDifference.openaiVsZonos = Math.abs(openaiDuty - zonosDuty);
-    }
-    if (anthropicDuty && openaiDuty) {
-      dutyDifference.anthropicVsOpenai = Math.abs(anthropicDuty - openaiDuty);
-    }
+    const dutyNames = Object.keys(dutyCalculations);
+    dutyDifference = buildMatrix(dutyNames, (a, b) => {
+      const aDuty = dutyCalculations[a].totalLandedCost;
+      const bDuty = dutyCalculations[b].totalLandedCost;
+      return aDuty && bDuty ? Math.abs(aDuty - bDuty) : undefined;
+    });
   }
 
-  // Determine winner (based on matching Zonos + confidence)
-  let winner: 'anthropic' | 'openai' | 'tie' | undefined;
-  const anthropicScore = calculateProviderScore(anthropic, zonos, hsCodeMatch.anthropicVsZonos, hsCodeMatch.hs6Match.anthropicVsZonos);
-  const openaiScore = calculateProviderScore(openai, zonos, hsCodeMatch.openaiVsZonos, hsCodeMatch.hs6Match.openaiVsZonos);
-
-  if (anthropicScore > openaiScore) {
-    winner = 'anthropic';
-  } else if (openaiScore > anthropicScore) {
-    winner = 'openai';
-  } else if (anthropicScore === openaiScore && anthropicScore > 0) {
-    winner = 'tie';
+  // Determine winner (based on matching the reference provider + confidence)
+  let winner: ProviderName | 'tie' | undefined;
+  let bestScore = 0;
+  for (const name of names) {
+    if (name === referenceName) continue;
+    const score = calculateProviderScore(
+      classifications[name],
+      reference,
+      !!referenceName && !!hsCodeMatch[name][referenceName],
+      !!referenceName && !!hs6Match[name][referenceName]
+    );
+    if (score > bestScore) {
+      bestScore = score;
+      winner = name;
+    } else if (score === bestScore && score > 0) {
+      winner = 'tie';
+    }
   }
 
   // Generate notes
-  const notes = generateAnalysisNotes(classifications, hsCodeMatch, dutyDifference);
+  const dutyCurrency = dutyCalculations ? Object.values(dutyCalculations)[0]?.currency : undefined;
+  const notes = generateAnalysisNotes(
+    classifications,
+    hsCodeMatch,
+    hs6Match,
+    referenceName,
+    dutyDifference,
+    dutyCurrency
+  );
 
   return {
+    referenceProvider: referenceName,
     hsCodeMatch,
+    hs6Match,
     confidenceScores,
     dutyDifference,
     winner,
@@ -264,7 +335,7 @@ function analyzeResults(
 
 function calculateProviderScore(
   result: ClassificationResult | undefined,
-  zonos: ClassificationResult | undefined,
+  reference: ClassificationResult | undefined,
   exactMatch: boolean,
   hs6Match: boolean
 ): number {
@@ -272,10 +343,10 @@ function calculateProviderScore(
 
   let score = 0;
 
-  // Exact HS code match with Zonos = 3 points
-  if (exactMatch) score += 3;
+  // Exact HS code match with the reference = 3 points
+  if (isUsable(reference) && exactMatch) score += 3;
   // HS6 match = 2 points
-  else if (hs6Match) score += 2;
+  else if (isUsable(reference) && hs6Match) score += 2;
 
   // Confidence bonus (0-1 points)
   score += result.confidence || 0;
@@ -283,133 +354,296 @@ function calculateProviderScore(
   return score;
 }
 
+function displayName(name: ProviderName): string {
+  return getProvider(name)?.displayName || name;
+}
+
 function generateAnalysisNotes(
   classifications: ComparisonResult['classifications'],
-  hsCodeMatch: ComparisonResult['analysis']['hsCodeMatch'],
-  dutyDifference?: ComparisonResult['analysis']['dutyDifference']
+  hsCodeMatch: PairwiseMatrix<boolean>,
+  hs6Match: PairwiseMatrix<boolean>,
+  referenceName: ProviderName | undefined,
+  dutyDifference?: PairwiseMatrix<number>,
+  dutyCurrency: string = 'EUR'
 ): string {
   const notes: string[] = [];
+  const names = Object.keys(classifications).filter((name) => isUsable(classifications[name]));
+  const pairs: Array<[ProviderName, ProviderName]> = [];
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) pairs.push([names[i], names[j]]);
+  }
 
   // HS code comparison
-  if (hsCodeMatch.anthropicVsZonos && hsCodeMatch.openaiVsZonos) {
-    notes.push('All providers returned the same HS code.');
-  } else if (hsCodeMatch.hs6Match.anthropicVsZonos && hsCodeMatch.hs6Match.openaiVsZonos) {
-    notes.push('All providers agree on HS6 (first 6 digits), differ on full code.');
-  } else {
-    const matches: string[] = [];
-    if (hsCodeMatch.anthropicVsZonos) matches.push('Anthropic matches Zonos');
-    if (hsCodeMatch.openaiVsZonos) matches.push('OpenAI matches Zonos');
-    if (hsCodeMatch.anthropicVsOpenai) matches.push('Anthropic matches OpenAI');
-    if (matches.length > 0) {
-      notes.push(matches.join('. ') + '.');
+  if (pairs.length > 0) {
+    if (pairs.every(([a, b]) => hsCodeMatch[a][b])) {
+      notes.push('All providers returned the same HS code.');
+    } else if (pairs.every(([a, b]) => hs6Match[a][b])) {
+      notes.push('All providers agree on HS6 (first 6 digits), differ on full code.');
     } else {
-      notes.push('All providers returned different HS codes.');
+      const matches = pairs
+        .filter(([a, b]) => hsCodeMatch[a][b])
+        .map(([a, b]) => (b === referenceName ? [a, b] : a === referenceName ? [b, a] : [a, b]))
+        .map(([a, b]) => `${displayName(a)} matches ${displayName(b)}`);
+      if (matches.length > 0) {
+        notes.push(matches.join('. ') + '.');
+      } else {
+        notes.push('All providers returned different HS codes.');
+      }
     }
   }
 
-  // Duty difference
-  if (dutyDifference) {
-    const maxDiff = Math.max(
-      dutyDifference.anthropicVsZonos || 0,
-      dutyDifference.openaiVsZonos || 0
-    );
+  // Duty difference against the reference provider
+  if (dutyDifference && referenceName && dutyDifference[referenceName]) {
+    const maxDiff = Math.max(0, ...Object.values(dutyDifference[referenceName]));
     if (maxDiff > 50) {
-      notes.push(`Significant duty difference detected: up to €${maxDiff.toFixed(2)}`);
+      notes.push(`Significant duty difference detected: up to ${maxDiff.toFixed(2)} ${dutyCurrency}`);
     } else if (maxDiff > 0) {
-      notes.push(`Minor duty difference: €${maxDiff.toFixed(2)}`);
+      notes.push(`Minor duty difference: ${maxDiff.toFixed(2)} ${dutyCurrency}`);
     }
   }
 
-  // Confidence comparison
-  const anthropicConf = classifications.anthropic?.confidence || 0;
-  const openaiConf = classifications.openai?.confidence || 0;
-  if (Math.abs(anthropicConf - openaiConf) > 0.2) {
-    const higher = anthropicConf > openaiConf ? 'Anthropic' : 'OpenAI';
-    notes.push(`${higher} has notably higher confidence.`);
+  // Confidence comparison between the non-reference providers
+  const scored = names
+    .filter((name) => name !== referenceName)
+    .map((name) => ({ name, confidence: classifications[name].confidence || 0 }))
+    .sort((a, b) => b.confidence - a.confidence);
+  if (scored.length >= 2 && scored[0].confidence - scored[scored.length - 1].confidence > 0.2) {
+    notes.push(`${displayName(scored[0].name)} has notably higher confidence.`);
   }
 
   return notes.join(' ');
 }
 
-export function getComparisonResult(id: string): ComparisonResult | undefined {
-  return comparisonResults.get(id);
+export async function getComparisonResult(id: string): Promise<ComparisonResult | undefined> {
+  const repository = await getComparisonRepository();
+  return repository.get(id);
 }
 
-export function getAllComparisonResults(): ComparisonResult[] {
-  return Array.from(comparisonResults.values()).sort(
-    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-  );
+export async function getAllComparisonResults(): Promise<ComparisonResult[]> {
+  const repository = await getComparisonRepository();
+  return repository.list();
+}
+
+/**
+ * Attach a verified HS code to a stored comparison, replacing any earlier label.
+ * Returns undefined when the comparison does not exist.
+ */
+export async function labelComparison(
+  id: string,
+  label: Omit<GroundTruthLabel, 'labelledAt'>
+): Promise<ComparisonResult | undefined> {
+  const repository = await getComparisonRepository();
+  const result = await repository.get(id);
+  if (!result) return undefined;
+
+  const labelled: ComparisonResult = {
+    ...result,
+    groundTruth: { ...label, labelledAt: new Date().toISOString() },
+  };
+  await repository.save(labelled);
+  invalidateCalibration();
+  return labelled;
+}
+
+export interface ProviderAccuracy {
+  /** Labelled comparisons this provider took part in */
+  evaluated: number;
+  /** Share correct at each level. HS8 only counts labels of 8 digits or more */
+  rates: Partial<Record<HsMatchLevel, number>>;
 }
 
-export function getComparisonStats(): {
+export interface ComparisonStats {
   total: number;
-  anthropicWins: number;
-  openaiWins: number;
+  referenceProvider?: ProviderName;
+  wins: ProviderRecord<number>;
   ties: number;
-  avgConfidence: { anthropic: number; openai: number; zonos: number };
-  hs6MatchRate: { anthropic: number; openai: number };
-} {
-  const results = getAllComparisonResults();
-
-  let anthropicWins = 0;
-  let openaiWins = 0;
-  let ties = 0;
-  let anthropicConfSum = 0;
-  let openaiConfSum = 0;
-  let zonosConfSum = 0;
-  let anthropicConfCount = 0;
-  let openaiConfCount = 0;
-  let zonosConfCount = 0;
-  let anthropicHs6Matches = 0;
-  let openaiHs6Matches = 0;
-  let anthropicHs6Total = 0;
-  let openaiHs6Total = 0;
+  avgConfidence: ProviderRecord<number>;
+  /** Share of comparisons where each provider's HS6 matched the reference provider */
+  hs6MatchRate: ProviderRecord<number>;
+  /** Pairwise agreement rates over comparisons where both providers returned a code */
+  agreement: {
+    exact: PairwiseMatrix<number>;
+    hs6: PairwiseMatrix<number>;
+  };
+  /** Accuracy against verified labels, independent of the reference provider */
+  accuracy: {
+    labelled: number;
+    providers: ProviderRecord<ProviderAccuracy>;
+  };
+  /** How well stated confidence predicts HS6 correctness on labelled comparisons */
+  calibration: ProviderRecord<ProviderCalibration>;
+  /** Per provider and prompt version, for comparing prompt variants */
+  prompts: ProviderRecord<Record<string, PromptVersionStats>>;
+  /** Per provider and requested model, for comparing models from the same vendor */
+  models: ProviderRecord<Record<string, ModelStats>>;
+}
 
-  for (const result of results) {
-    if (result.analysis.winner === 'anthropic') anthropicWins++;
-    else if (result.analysis.winner === 'openai') openaiWins++;
-    else if (result.analysis.winner === 'tie') ties++;
+/** A provider that failed or returned no code counts as wrong at every level */
+function accuracyStats(results: ComparisonResult[]): ComparisonStats['accuracy'] {
+  const labelled = results.filter((result) => result.groundTruth);
+  const evaluated: ProviderRecord<number> = {};
+  const correct: ProviderRecord<Partial<Record<HsMatchLevel, number>>> = {};
+  const assessed: ProviderRecord<Partial<Record<HsMatchLevel, number>>> = {};
+
+  for (const result of labelled) {
+    const verified = result.groundTruth!.hsCode;
+    for (const [name, classification] of Object.entries(result.classifications)) {
+      evaluated[name] = (evaluated[name] || 0) + 1;
+      correct[name] = correct[name] || {};
+      assessed[name] = assessed[name] || {};
+      for (const level of assessableLevels(verified)) {
+        assessed[name][level] = (assessed[name][level] || 0) + 1;
+        if (isUsable(classification) && matchesAtLevel(level, classification.hsCode, verified)) {
+          correct[name][level] = (correct[name][level] || 0) + 1;
+        }
+      }
+    }
+  }
 
-    if (result.classifications.anthropic?.confidence) {
-      anthropicConfSum += result.classifications.anthropic.confidence;
-      anthropicConfCount++;
+  const providers: ProviderRecord<ProviderAccuracy> = {};
+  for (const name of Object.keys(evaluated)) {
+    const rates: ProviderAccuracy['rates'] = {};
+    for (const level of HS_MATCH_LEVELS) {
+      const total = assessed[name][level];
+      if (total) rates[level] = (correct[name][level] || 0) / total;
     }
-    if (result.classifications.openai?.confidence) {
-      openaiConfSum += result.classifications.openai.confidence;
-      openaiConfCount++;
+    providers[name] = { evaluated: evaluated[name], rates };
+  }
+
+  return { labelled: labelled.length, providers };
+}
+
+/**
+ * Stats per provider and variant (prompt version, model). Classifications without a
+ * variant, such as those stored before it was recorded, are left out.
+ */
+function variantStats(
+  results: ComparisonResult[],
+  referenceName: ProviderName | undefined,
+  variantOf: (classification: ClassificationResult) => string | undefined
+): ProviderRecord<Record<string, ModelStats>> {
+  const empty = () => ({ classifications: 0, errors: 0, confidence: 0, latencyMs: 0, compared: 0, agreed: 0, labelled: 0, correct: 0 });
+  const tallies: ProviderRecord<Record<string, ReturnType<typeof empty>>> = {};
+
+  for (const result of results) {
+    const reference = referenceName ? result.classifications[referenceName] : undefined;
+    const verified = result.groundTruth?.hsCode;
+    for (const [name, classification] of Object.entries(result.classifications)) {
+      const variant = variantOf(classification);
+      if (!variant) continue;
+      tallies[name] = tallies[name] || {};
+      const tally = (tallies[name][variant] = tallies[name][variant] || empty());
+
+      tally.classifications++;
+      if (!isUsable(classification)) {
+        tally.errors++;
+      } else {
+        tally.confidence += classification.confidence;
+        tally.latencyMs += classification.latencyMs;
+      }
+      if (name !== referenceName && isUsable(reference)) {
+        tally.compared++;
+        if (isUsable(classification) && sameHs6(classification.hsCode, reference.hsCode)) tally.agreed++;
+      }
+      if (verified) {
+        tally.labelled++;
+        if (isUsable(classification) && matchesAtLevel('hs6', classification.hsCode, verified)) tally.correct++;
+      }
     }
-    if (result.classifications.zonos?.confidence) {
-      zonosConfSum += result.classifications.zonos.confidence;
-      zonosConfCount++;
+  }
+
+  const stats: ProviderRecord<Record<string, ModelStats>> = {};
+  for (const [name, variants] of Object.entries(tallies)) {
+    stats[name] = {};
+    for (const [variant, tally] of Object.entries(variants)) {
+      const answered = tally.classifications - tally.errors;
+      stats[name][variant] = {
+        classifications: tally.classifications,
+        errors: tally.errors,
+        avgConfidence: answered > 0 ? tally.confidence / answered : 0,
+        avgLatencyMs: answered > 0 ? tally.latencyMs / answered : 0,
+        ...(tally.compared > 0 && { hs6MatchRate: tally.agreed / tally.compared }),
+        labelled: tally.labelled,
+        ...(tally.labelled > 0 && { hs6Accuracy: tally.correct / tally.labelled }),
+      };
     }
+  }
+  return stats;
+}
+
+export async function getComparisonStats(): Promise<ComparisonStats> {
+  const results = await getAllComparisonResults();
+  const names = getProviderNames();
+  const referenceName = getReferenceProvider()?.name;
+
+  const wins: ProviderRecord<number> = {};
+  const confSum: ProviderRecord<number> = {};
+  const confCount: ProviderRecord<number> = {};
+  const pairTotal: PairwiseMatrix<number> = {};
+  const pairExact: PairwiseMatrix<number> = {};
+  const pairHs6: PairwiseMatrix<number> = {};
+  let ties = 0;
+
+  const bump = (matrix: PairwiseMatrix<number>, a: ProviderName, b: ProviderName) => {
+    matrix[a] = matrix[a] || {};
+    matrix[a][b] = (matrix[a][b] || 0) + 1;
+  };
 
-    if (result.classifications.anthropic && result.classifications.zonos) {
-      anthropicHs6Total++;
-      if (result.analysis.hsCodeMatch.hs6Match.anthropicVsZonos) {
-        anthropicHs6Matches++;
+  for (const result of results) {
+    const winner = result.analysis.winner;
+    if (winner === 'tie') ties++;
+    else if (winner) wins[winner] = (wins[winner] || 0) + 1;
+
+    // Pairwise agreement is recomputed from classifications so results stored
+    // before the matrix analysis shape still count
+    const present = Object.entries(result.classifications);
+    for (const [name, classification] of present) {
+      if (classification.confidence) {
+        confSum[name] = (confSum[name] || 0) + classification.confidence;
+        confCount[name] = (confCount[name] || 0) + 1;
       }
-    }
-    if (result.classifications.openai && result.classifications.zonos) {
-      openaiHs6Total++;
-      if (result.analysis.hsCodeMatch.hs6Match.openaiVsZonos) {
-        openaiHs6Matches++;
+      if (!isUsable(classification)) continue;
+      for (const [other, otherClassification] of present) {
+        if (!isUsable(otherClassification)) continue;
+        if (other === name) continue;
+        bump(pairTotal, name, other);
+        if (sameHsCode(classification.hsCode, otherClassification.hsCode)) bump(pairExact, name, other);
+        if (sameHs6(classification.hsCode, otherClassification.hsCode)) bump(pairHs6, name, other);
       }
     }
   }
 
+  const allNames = Array.from(new Set([...names, ...Object.keys(pairTotal), ...Object.keys(confCount)]));
+  const rate = (matrix: PairwiseMatrix<number>) =>
+    buildMatrix(allNames, (a, b) => {
+      const total = pairTotal[a]?.[b] || 0;
+      return total > 0 ? (matrix[a]?.[b] || 0) / total : undefined;
+    });
+  const exact = rate(pairExact);
+  const hs6 = rate(pairHs6);
+
+  const avgConfidence: ProviderRecord<number> = {};
+  const hs6MatchRate: ProviderRecord<number> = {};
+  for (const name of allNames) {
+    wins[name] = wins[name] || 0;
+    avgConfidence[name] = confCount[name] ? confSum[name] / confCount[name] : 0;
+    if (referenceName && name !== referenceName) {
+      hs6MatchRate[name] = hs6[name]?.[referenceName] ?? 0;
+    }
+  }
+  if (referenceName) delete wins[referenceName];
+
   return {
     total: results.length,
-    anthropicWins,
-    openaiWins,
+    referenceProvider: referenceName,
+    wins,
     ties,
-    avgConfidence: {
-      anthropic: anthropicConfCount > 0 ? anthropicConfSum / anthropicConfCount : 0,
-      openai: openaiConfCount > 0 ? openaiConfSum / openaiConfCount : 0,
-      zonos: zonosConfCount > 0 ? zonosConfSum / zonosConfCount : 0,
-    },
-    hs6MatchRate: {
-      anthropic: anthropicHs6Total > 0 ? anthropicHs6Matches / anthropicHs6Total : 0,
-      openai: openaiHs6Total > 0 ? openaiHs6Matches / openaiHs6Total : 0,
-    },
+    avgConfidence,
+    hs6MatchRate,
+    agreement: { exact, hs6 },
+    accuracy: accuracyStats(results),
+    calibration: calibrationStats(results),
+    prompts: variantStats(results, referenceName, (classification) => classification.promptVersion),
+    models: variantStats(results, referenceName, (classification) => classification.model),
   };
 }
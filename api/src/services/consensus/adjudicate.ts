@@ -0,0 +1,114 @@
+import Anthropic, { type ClientOptions } from '@anthropic-ai/sdk';
+import type {
+  ClassificationInput,
+  ComparisonResult,
+  ConsensusClassification,
+} from '../../types/classification.js';
+import { classificationCodes, formatHsCode, sameHs6 } from '../hs/index.js';
+import { ADJUDICATION_OUTPUT, anthropicStructured, describeOutputError, modelParams, resolveModel } from '../llm/index.js';
+import { providerApiKey, sdkTransport } from '../recording/index.js';
+import { consensusFor, registryWeight, usableBallots, type ProviderWeight } from './vote.js';
+
+const ADJUDICATION_SYSTEM_PROMPT = `You are a senior customs classification specialist reviewing HS code classifications that several classifiers disagree on.
+
+You are given the product and every classifier's proposed code, with its confidence, reasoning and any alternatives it considered. Apply the General Rules of Interpretation (GRI) in order and decide which proposed code is correct for import to the destination.
+
+Choose one of the proposed codes or alternatives; do not invent a new one. Record the decision with the record_decision tool, giving the code exactly as proposed, your confidence, and a short explanation of why it is right and the others are not.`;
+
+function describeCandidates(classifications: ComparisonResult['classifications']): string {
+  return Object.values(classifications)
+    .filter((result) => !result.error && result.hsCode)
+    .map((result) => {
+      let text = `${result.provider}: ${formatHsCode(result.hsCode)} (confidence ${result.confidence})`;
+      if (result.description) text += ` — ${result.description}`;
+      if (result.reasoning) text += `\n  Reasoning: ${result.reasoning}`;
+      for (const alternative of result.alternatives ?? []) {
+        text += `\n  Alternative: ${formatHsCode(alternative.hsCode)} (confidence ${alternative.confidence})`;
+        if (alternative.reasoning) text += ` — ${alternative.reasoning}`;
+      }
+      return text;
+    })
+    .join('\n\n');
+}
+
+/** Every code put forward: each provider's choice and its alternatives */
+function proposedCodes(classifications: ComparisonResult['classifications']): string[] {
+  return Object.values(classifications)
+    .filter((result) => !result.error && result.hsCode)
+    .flatMap((result) => [result.hsCode, ...(result.alternatives ?? []).map((alternative) => alternative.hsCode)]);
+}
+
+/**
+ * Ask Claude to choose between the providers' candidates when the vote was not
+ * unanimous. The decision must fall under a proposed subheading; otherwise, or when the
+ * call fails, the vote stands and the reason is kept on `adjudication.error`.
+ */
+export async function adjudicateConsensus(
+  input: ClassificationInput,
+  classifications: ComparisonResult['classifications'],
+  vote: ConsensusClassification,
+  weightOf: ProviderWeight = registryWeight
+): Promise<ConsensusClassification> {
+  if (vote.method === 'unanimous') return vote;
+  const settings = resolveModel('adjudicator', input.models?.adjudicator);
+
+  const apiKey = providerApiKey('ANTHROPIC_API_KEY');
+  if (!apiKey) {
+    return { ...vote, adjudication: { error: 'ANTHROPIC_API_KEY not configured' } };
+  }
+
+  const client = new Anthropic({ apiKey, ...sdkTransport<ClientOptions['fetch']>('anthropic') });
+
+  let prompt = `Decide the HS code for customs import to ${input.shipToCountry || 'US'}.\n\n`;
+  if (input.productName) prompt += `Product Name: ${input.productName}\n`;
+  if (input.productDescription) prompt += `Description: ${input.productDescription}\n`;
+  if (input.originCountry) prompt += `Origin Country: ${input.originCountry}\n`;
+  prompt += `\nProposed classifications:\n\n${describeCandidates(classifications)}\n\nRecord your decision.`;
+
+  try {
+    const result = await anthropicStructured(
+      client,
+      {
+        ...modelParams(settings),
+        system: ADJUDICATION_SYSTEM_PROMPT,
+        messages: [{ role: 'user', content: prompt }],
+      },
+      ADJUDICATION_OUTPUT
+    );
+
+    if (!result.ok) {
+      return {
+        ...vote,
+        adjudication: { model: settings.model, usage: result.usage, error: describeOutputError(result.error) },
+      };
+    }
+
+    const decision = result.data;
+    const codes = classificationCodes(decision);
+    const adjudication = {
+      model: settings.model,
+      hsCode: codes.hsCode,
+      confidence: decision.confidence,
+      reasoning: decision.reasoning,
+      usage: result.usage,
+    };
+
+    if (!proposedCodes(classifications).some((code) => sameHs6(code, codes.hsCode))) {
+      return { ...vote, adjudication: { ...adjudication, error: `${formatHsCode(codes.hsCode)} was not proposed by any provider` } };
+    }
+
+    const decided = consensusFor(codes.hsCode6, usableBallots(classifications, weightOf), vote.mode, codes.hsCode8);
+    return {
+      ...decided,
+      method: 'adjudicated',
+      hsCode: codes.hsCode,
+      description: decision.description || decided.description,
+      adjudication,
+    };
+  } catch (error) {
+    return {
+      ...vote,
+      adjudication: { model: settings.model, error: error instanceof Error ? error.message : 'Unknown error' },
+    };
+  }
+}
@@ -0,0 +1,3 @@
+export { adjudicateConsensus } from './adjudicate.js';
+export { consensusFor, registryWeight, usableBallots, voteConsensus } from './vote.js';
+export type { Ballot, ProviderWeight } from './vote.js';
@@ -0,0 +1,113 @@
+import type {
+  ClassificationResult,
+  ComparisonResult,
+  ConsensusClassification,
+  ConsensusMode,
+  ProviderName,
+} from '../../types/classification.js';
+import { getProvider } from '../classifiers/index.js';
+import { hsLevels } from '../hs/index.js';
+
+export type ProviderWeight = (provider: ProviderName) => number;
+
+export const registryWeight: ProviderWeight = (provider) => getProvider(provider)?.consensusWeight ?? 1;
+
+export interface Ballot {
+  result: ClassificationResult;
+  weight: number;
+}
+
+interface Tally {
+  key: string;
+  weight: number;
+  confidence: number; // Confidence-weighted votes, for breaking ties
+  ballots: Ballot[];
+}
+
+function tally(ballots: Ballot[], keyOf: (ballot: Ballot) => string | undefined): Tally[] {
+  const tallies = new Map<string, Tally>();
+  for (const ballot of ballots) {
+    const key = keyOf(ballot);
+    if (!key) continue;
+    const entry = tallies.get(key) ?? { key, weight: 0, confidence: 0, ballots: [] };
+    entry.weight += ballot.weight;
+    entry.confidence += ballot.weight * ballot.result.confidence;
+    entry.ballots.push(ballot);
+    tallies.set(key, entry);
+  }
+  return [...tallies.values()].sort((a, b) => b.weight - a.weight || b.confidence - a.confidence);
+}
+
+const isTie = (tallies: Tally[]) => tallies.length > 1 && tallies[0].weight === tallies[1].weight;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function usableBallots(classifications: ComparisonResult['classifications'], weightOf: ProviderWeight): Ballot[] {
+  return Object.values(classifications)
+    .filter((result) => !result.error && !!result.hsCode)
+    .map((result) => ({ result, weight: weightOf(result.provider) }))
+    .filter((ballot) => ballot.weight > 0);
+}
+
+const hs8Of = (result: ClassificationResult) => result.hsCode8 ?? hsLevels(result.hsCode).cn8;
+
+/**
+ * Combine provider classifications by weighted vote: the HS6 subheading with the most
+ * weight behind it wins, then the 8-digit code most of its supporters chose. Equal votes
+ * go to the side with more confidence-weighted support. The code itself is the most
+ * confident supporter's. Undefined when no provider produced a code.
+ */
+export function voteConsensus(
+  classifications: ComparisonResult['classifications'],
+  mode: ConsensusMode = 'vote',
+  weightOf: ProviderWeight = registryWeight
+): ConsensusClassification | undefined {
+  const ballots = usableBallots(classifications, weightOf);
+  if (ballots.length === 0) return undefined;
+
+  const hs6 = tally(ballots, (ballot) => ballot.result.hsCode6);
+  const hs8 = tally(hs6[0].ballots, (ballot) => hs8Of(ballot.result));
+  const consensus = consensusFor(hs6[0].key, ballots, mode, hs8[0]?.key);
+  return {
+    ...consensus,
+    method: consensus.agreement === 1 && (consensus.hs8Agreement ?? 1) === 1 ? 'unanimous' : 'vote',
+    ...((isTie(hs6) || isTie(hs8)) && { tieBroken: true }),
+  };
+}
+
+/**
+ * The consensus for a given HS6 (and HS8): its supporters, its share of the vote and the
+ * code of its most confident supporter. Also used to describe an adjudicated decision.
+ */
+export function consensusFor(
+  hs6: string,
+  ballots: Ballot[],
+  mode: ConsensusMode,
+  hs8?: string
+): ConsensusClassification {
+  const total = ballots.reduce((sum, ballot) => sum + ballot.weight, 0);
+  const votes = Object.fromEntries(tally(ballots, (ballot) => ballot.result.hsCode6).map((t) => [t.key, round(t.weight)]));
+
+  const supporters = ballots.filter((ballot) => ballot.result.hsCode6 === hs6);
+  const detailed = supporters.filter((ballot) => hs8Of(ballot.result));
+  const matching = hs8 ? detailed.filter((ballot) => hs8Of(ballot.result) === hs8) : [];
+  const weightOf = (list: Ballot[]) => list.reduce((sum, ballot) => sum + ballot.weight, 0);
+
+  const source = [...(matching.length > 0 ? matching : supporters)].sort(
+    (a, b) => b.result.confidence - a.result.confidence
+  )[0]?.result;
+  const hsCode8 = hs8 ?? (source && hs8Of(source));
+
+  return {
+    mode,
+    method: 'vote',
+    hsCode: source?.hsCode ?? hs8 ?? hs6,
+    hsCode6: hs6,
+    ...(hsCode8 && { hsCode8 }),
+    description: source?.description ?? '',
+    agreement: total > 0 ? round(weightOf(supporters) / total) : 0,
+    ...(matching.length > 0 && { hs8Agreement: round(weightOf(matching) / weightOf(detailed)) }),
+    supporters: supporters.map((ballot) => ballot.result.provider),
+    votes,
+  };
+}
@@ -0,0 +1,167 @@
+import deMinimisData from '../../data/de-minimis.json';
+import type { DeMinimisAssessment, DeMinimisThreshold } from '../../types/classification.js';
+import type { ShipmentDutyCalculation } from '../../types/shipment.js';
+import { convert } from '../fx/index.js';
+import { summarizeShipment } from './shipment.js';
+
+interface DeMinimisRule {
+  validFrom: string;
+  validTo?: string;
+  originCountries?: string[];
+  duty: number;
+  tax: number;
+  note?: string;
+}
+
+interface DeMinimisRegime {
+  id: string;
+  name: string;
+  destinations: string[];
+  currency: string;
+  rules: DeMinimisRule[];
+}
+
+const REGIMES: DeMinimisRegime[] = deMinimisData.regimes;
+
+/**
+ * First rule of the destination's regime in force on `date` that matches the origin.
+ * Rules are listed most specific first in the data file.
+ */
+function findRule(
+  originCountry: string,
+  shipToCountry: string,
+  date: Date
+): { regime: DeMinimisRegime; rule: DeMinimisRule } | undefined {
+  const day = date.toISOString().slice(0, 10);
+  const regime = REGIMES.find((r) => r.destinations.includes(shipToCountry));
+  if (!regime) return undefined;
+
+  const rule = regime.rules.find(
+    (r) =>
+      r.validFrom <= day &&
+      (!r.validTo || r.validTo >= day) &&
+      (!r.originCountries || r.originCountries.includes(originCountry))
+  );
+  return rule ? { regime, rule } : undefined;
+}
+
+function assessThreshold(
+  label: 'duty' | 'tax',
+  threshold: number,
+  value: number,
+  currency: string,
+  regime: DeMinimisRegime,
+  note?: string
+): DeMinimisThreshold {
+  const base = { threshold, currency: regime.currency };
+  const suffix = note ? ` (${note})` : '';
+
+  if (threshold <= 0) {
+    return { ...base, exempt: false, reason: `${regime.name} grants no ${label} relief${suffix}` };
+  }
+  // Thresholds are compared in the regime currency
+  let compared = value;
+  let valueText = `${value.toFixed(2)} ${currency}`;
+  if (currency !== regime.currency) {
+    try {
+      const fx = convert(value, currency, regime.currency);
+      compared = fx.amount;
+      valueText += ` (${fx.amount.toFixed(2)} ${regime.currency} at ${fx.rateDate} rate)`;
+    } catch {
+      return {
+        ...base,
+        exempt: false,
+        reason: `${label === 'duty' ? 'Duty' : 'Tax'} threshold is ${threshold} ${regime.currency}; value in ${currency} could not be converted`,
+      };
+    }
+  }
+
+  if (compared <= threshold) {
+    return {
+      ...base,
+      exempt: true,
+      reason: `Value ${valueText} is at or below the ${threshold} ${regime.currency} ${label} threshold${suffix}`,
+    };
+  }
+  return {
+    ...base,
+    exempt: false,
+    reason: `Value ${valueText} exceeds the ${threshold} ${regime.currency} ${label} threshold`,
+  };
+}
+
+/**
+ * Whether a consignment of total `value` escapes duty and/or import tax at the border.
+ * Returns undefined when no de minimis regime is known for the destination.
+ */
+export function evaluateDeMinimis(
+  value: number,
+  currency: string,
+  originCountry: string,
+  shipToCountry: string,
+  date: Date = new Date()
+): DeMinimisAssessment | undefined {
+  const match = findRule(originCountry, shipToCountry, date);
+  if (!match) return undefined;
+
+  const { regime, rule } = match;
+  return {
+    regime: regime.id,
+    duty: assessThreshold('duty', rule.duty, value, currency, regime, rule.note),
+    tax: assessThreshold('tax', rule.tax, value, currency, regime, rule.note),
+  };
+}
+
+/**
+ * Zero out duty and/or tax on a finished shipment according to the consignment-level
+ * assessment, reporting each waived charge as an explicit breakdown line.
+ */
+export function applyDeMinimis(
+  shipment: ShipmentDutyCalculation,
+  assessment: DeMinimisAssessment
+): ShipmentDutyCalculation {
+  const { duty, tax } = assessment;
+  if (!duty.exempt && !tax.exempt) {
+    return { ...shipment, deMinimis: assessment };
+  }
+
+  const taxLabel = shipment.breakdown.find((line) => line.kind === 'tax')?.type;
+  const lines = shipment.lines.map((line) => ({
+    ...line,
+    duties: duty.exempt ? { amount: 0, rate: '0%' } : line.duties,
+    taxes: tax.exempt ? { amount: 0, rate: '0%' } : line.taxes,
+  }));
+  const summarized = summarizeShipment({ ...shipment, lines }, taxLabel);
+
+  // A waived charge replaces its summarized line (e.g. a zero preferential duty line),
+  // otherwise it follows the lines that come before it
+  const breakdown = [...summarized.breakdown];
+  const place = (line: ShipmentDutyCalculation['breakdown'][number], after: string[]) => {
+    const existing = breakdown.findIndex((entry) => entry.kind === line.kind);
+    if (existing >= 0) {
+      breakdown[existing] = line;
+      return;
+    }
+    const preceding = breakdown.reduce((last, entry, i) => (after.includes(entry.kind ?? '') ? i : last), -1);
+    breakdown.splice(preceding + 1, 0, line);
+  };
+  if (duty.exempt) {
+    place(
+      { type: 'Customs Duty (de minimis)', kind: 'duty', amount: 0, rate: '0%', reason: duty.reason },
+      ['product', 'freight', 'valuation']
+    );
+  }
+  if (tax.exempt) {
+    place(
+      { type: 'VAT/Tax (de minimis)', kind: 'tax', amount: 0, rate: '0%', reason: tax.reason },
+      ['product', 'freight', 'valuation', 'duty']
+    );
+  }
+
+  return {
+    ...summarized,
+    dutyType: duty.exempt ? 'de_minimis' : summarized.dutyType,
+    breakdown,
+    deMinimis: assessment,
+  };
+}
@@ -0,0 +1,154 @@
+import type { DutyCalculation, DutyEngine, DutyEngineOptions, FreightCosts, FxConversion } from '../../types/classification.js';
+import type { ShipmentDutyCalculation, ShipmentLineItem } from '../../types/shipment.js';
+import { calculateDutyWithZonos, calculateShipmentWithZonos } from '../classifiers/index.js';
+import { convert, toCustomsValue } from '../fx/index.js';
+import { calculateDutyLocally, calculateShipmentLocally } from './local.js';
+import { round2 } from './shipment.js';
+
+export { calculateDutyLocally, calculateShipmentLocally } from './local.js';
+export { findSchedule, lookupRate, listSchedules } from './tariffSchedules.js';
+export { evaluateDeMinimis, applyDeMinimis } from './deMinimis.js';
+export { assessCustomsValue, getValuationMethod } from './valuation.js';
+export { assessPreference, findAgreement, listAgreements } from './preferences.js';
+
+export const DUTY_ENGINES: DutyEngine[] = ['zonos', 'local'];
+
+export interface DutyOptions extends DutyEngineOptions {
+  displayCurrency?: string;
+}
+
+/** Freight costs re-expressed at the rate applied to the product value */
+export function convertFreightCosts(costs: FreightCosts, fx?: FxConversion): FreightCosts {
+  const rate = fx?.rate ?? 1;
+  return {
+    ...(costs.shippingCost !== undefined && { shippingCost: round2(costs.shippingCost * rate) }),
+    ...(costs.insuranceCost !== undefined && { insuranceCost: round2(costs.insuranceCost * rate) }),
+    ...(costs.incoterm && { incoterm: costs.incoterm }),
+  };
+}
+
+/**
+ * Run a duty engine on the value expressed in the destination's customs currency,
+ * optionally re-expressing the totals in a display currency.
+ */
+export async function calculateDuty(
+  engine: DutyEngine,
+  hsCode: string,
+  productValue: number,
+  currency: string = 'EUR',
+  originCountry?: string,
+  shipToCountry: string = 'US',
+  options: DutyOptions = {}
+): Promise<DutyCalculation> {
+  const calculate = engine === 'local' ? calculateDutyLocally : calculateDutyWithZonos;
+
+  let valuation: ReturnType<typeof toCustomsValue> = { amount: productValue, currency };
+  try {
+    valuation = toCustomsValue(productValue, currency, shipToCountry);
+  } catch (error) {
+    console.warn(`[Duty] Valuing in ${currency}:`, error instanceof Error ? error.message : error);
+  }
+
+  const calculation = await calculate(
+    hsCode,
+    valuation.amount,
+    valuation.currency,
+    originCountry,
+    shipToCountry,
+    { ...convertFreightCosts(options, valuation.fx), claimPreference: options.claimPreference }
+  );
+  const result: DutyCalculation = valuation.fx ? { ...calculation, fx: valuation.fx } : calculation;
+
+  if (options.displayCurrency && !result.error) {
+    return withDisplayCurrency(result, valuation.amount, options.displayCurrency);
+  }
+  return result;
+}
+
+function withDisplayCurrency(
+  calculation: DutyCalculation,
+  productValue: number,
+  displayCurrency: string
+): DutyCalculation {
+  try {
+    const toDisplay = (amount: number) => convert(amount, calculation.currency, displayCurrency);
+    const total = toDisplay(calculation.totalLandedCost);
+    return {
+      ...calculation,
+      display: {
+        currency: total.to,
+        productValue: toDisplay(productValue).amount,
+        duties: toDisplay(calculation.duties.amount).amount,
+        vat: toDisplay(calculation.vat.amount).amount,
+        totalLandedCost: total.amount,
+        rate: total.rate,
+        rateDate: total.rateDate,
+      },
+    };
+  } catch (error) {
+    console.warn(`[Duty] No display amounts in ${displayCurrency}:`, error instanceof Error ? error.message : error);
+    return calculation;
+  }
+}
+
+/**
+ * Multi-item counterpart of calculateDuty: unit values are converted to the
+ * destination's customs currency at a single rate before the engine runs.
+ */
+export async function calculateShipmentDuty(
+  engine: DutyEngine,
+  items: ShipmentLineItem[],
+  currency: string = 'EUR',
+  originCountry: string = 'US',
+  shipToCountry: string = 'US',
+  options: DutyOptions = {}
+): Promise<ShipmentDutyCalculation> {
+  const calculate = engine === 'local' ? calculateShipmentLocally : calculateShipmentWithZonos;
+
+  let valuedItems = items;
+  let valuationCurrency = currency;
+  let fx: FxConversion | undefined;
+  try {
+    const total = items.reduce((sum, item) => sum + item.unitValue * item.quantity, 0);
+    const valuation = toCustomsValue(total, currency, shipToCountry);
+    valuationCurrency = valuation.currency;
+    fx = valuation.fx;
+    if (fx) {
+      const rate = fx.rate;
+      valuedItems = items.map((item) => ({ ...item, unitValue: round2(item.unitValue * rate) }));
+    }
+  } catch (error) {
+    console.warn(`[Duty] Valuing shipment in ${currency}:`, error instanceof Error ? error.message : error);
+  }
+
+  const calculation = await calculate(
+    valuedItems,
+    valuationCurrency,
+    originCountry,
+    shipToCountry,
+    { ...convertFreightCosts(options, fx), claimPreference: options.claimPreference }
+  );
+  const result: ShipmentDutyCalculation = fx ? { ...calculation, fx } : calculation;
+
+  if (options.displayCurrency && !result.error) {
+    try {
+      const toDisplay = (amount: number) => convert(amount, result.currency, options.displayCurrency!);
+      const total = toDisplay(result.totals.totalLandedCost);
+      return {
+        ...result,
+        display: {
+          currency: total.to,
+          productValue: toDisplay(result.totals.productValue).amount,
+          duties: toDisplay(result.totals.duties).amount,
+          vat: toDisplay(result.totals.taxes).amount,
+          totalLandedCost: total.amount,
+          rate: total.rate,
+          rateDate: total.rateDate,
+        },
+      };
+    } catch (error) {
+      console.warn(`[Duty] No display amounts in ${options.displayCurrency}:`, error instanceof Error ? error.message : error);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,139 @@
+import type { DutyCalculation, DutyEngineOptions } from '../../types/classification.js';
+import type { ShipmentDutyCalculation, ShipmentLineDuty, ShipmentLineItem } from '../../types/shipment.js';
+import { findSchedule, lookupRate } from './tariffSchedules.js';
+import { formatTaxLabel, resolveTaxRate } from '../tax/index.js';
+import { applyDeMinimis, evaluateDeMinimis } from './deMinimis.js';
+import { failedShipment, lineValue, round2, summarizeShipment, toDutyCalculation } from './shipment.js';
+import { assessCustomsValue, hasFreightCosts, lineCustomsValues } from './valuation.js';
+import { assessPreference } from './preferences.js';
+
+/**
+ * Offline landed cost for a multi-item consignment from the bundled tariff schedules.
+ * Duty is assessed per line; de minimis thresholds apply to the consignment total.
+ */
+export async function calculateShipmentLocally(
+  items: ShipmentLineItem[],
+  currency: string = 'EUR',
+  originCountry: string = 'US',
+  shipToCountry: string = 'US',
+  options: DutyEngineOptions = {}
+): Promise<ShipmentDutyCalculation> {
+  const startTime = Date.now();
+
+  try {
+    const schedule = findSchedule(shipToCountry);
+    if (!schedule) {
+      throw new Error(`No local tariff schedule for destination ${shipToCountry}`);
+    }
+    const tariffSchedule = { id: schedule.id, version: schedule.version };
+
+    const consignmentValue = round2(items.reduce((total, item) => total + lineValue(item), 0));
+    const valuation = hasFreightCosts(options) ? assessCustomsValue(consignmentValue, options, shipToCountry) : undefined;
+    const customsValues = lineCustomsValues(items.map(lineValue), valuation);
+    // Thresholds apply to the intrinsic value of the goods, before transport costs
+    const deMinimis = evaluateDeMinimis(consignmentValue, currency, originCountry, shipToCountry);
+
+    const taxLabels = new Set<string>();
+    const lines: ShipmentLineDuty[] = items.map((item, index) => {
+      const itemOrigin = item.originCountry || originCountry;
+      const value = customsValues[index];
+      const tax = resolveTaxRate(shipToCountry, item.hsCode);
+      const taxRate = tax?.rate ?? 0;
+      if (tax && taxRate > 0) taxLabels.add(formatTaxLabel(tax));
+
+      const line = {
+        index,
+        hsCode: item.hsCode,
+        description: item.description,
+        quantity: item.quantity,
+        unitValue: item.unitValue,
+        lineValue: lineValue(item),
+        customsValue: value,
+        originCountry: itemOrigin,
+        weightKg: item.weightKg,
+        fees: 0,
+      };
+
+      // Same customs territory (e.g. intra-EU, US to US): no customs duties
+      if (schedule.destinations.includes(itemOrigin)) {
+        return {
+          ...line,
+          duties: { amount: 0, rate: '0%' },
+          taxes: { amount: round2(value * (taxRate / 100)), rate: `${taxRate}%` },
+        };
+      }
+
+      const match = lookupRate(schedule, item.hsCode);
+      if (!match) {
+        throw new Error(`No ${schedule.id} rate for HS ${item.hsCode}`);
+      }
+      const preference = assessPreference(
+        item.hsCode,
+        match.rate.rate,
+        itemOrigin,
+        shipToCountry,
+        options.claimPreference ?? true
+      );
+      const dutyRate = preference?.applied ? preference.preferentialRate! : match.rate.rate;
+      const duty = round2(value * (dutyRate / 100));
+      // Import VAT is levied on the customs value plus any duty actually charged
+      const taxBase = deMinimis?.duty.exempt ? value : value + duty;
+
+      return {
+        ...line,
+        duties: { amount: duty, rate: `${dutyRate}%` },
+        taxes: { amount: round2(taxBase * (taxRate / 100)), rate: `${taxRate}%` },
+        tariffMatch: match.code,
+        ...(preference && { preference }),
+      };
+    });
+
+    const domestic = items.every((item) => schedule.destinations.includes(item.originCountry || originCountry));
+    const shipment = summarizeShipment(
+      {
+        engine: 'local',
+        originCountry,
+        shipToCountry,
+        currency,
+        dutyType: domestic ? 'domestic' : 'customs_duty',
+        lines,
+        valuation,
+        tariffSchedule,
+        latencyMs: Date.now() - startTime,
+      },
+      taxLabels.size === 1 ? [...taxLabels][0] : 'VAT/Tax'
+    );
+
+    // De minimis relief only exists for imports
+    return deMinimis && !domestic ? applyDeMinimis(shipment, deMinimis) : shipment;
+  } catch (error) {
+    return failedShipment('local', items, currency, originCountry, shipToCountry, startTime, error);
+  }
+}
+
+/**
+ * Offline duty calculation from the bundled tariff schedules.
+ * Same signature and result shape as calculateDutyWithZonos.
+ */
+export async function calculateDutyLocally(
+  hsCode: string,
+  productValue: number,
+  currency: string = 'EUR',
+  originCountry: string = 'US',
+  shipToCountry: string = 'US',
+  options: DutyEngineOptions = {}
+): Promise<DutyCalculation> {
+  const shipment = await calculateShipmentLocally(
+    [{ hsCode, quantity: 1, unitValue: productValue }],
+    currency,
+    originCountry,
+    shipToCountry,
+    options
+  );
+  const calculation = toDutyCalculation(shipment, hsCode, 'local');
+  const match = shipment.lines[0]?.tariffMatch;
+  if (calculation.tariffSchedule && match) {
+    calculation.tariffSchedule = { ...calculation.tariffSchedule, matchedCode: match };
+  }
+  return calculation;
+}
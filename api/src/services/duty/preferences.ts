@@ -0,0 +1,100 @@
+import tradeAgreementData from '../../data/trade-agreements.json';
+import type { PreferenceAssessment } from '../../types/classification.js';
+
+interface SensitiveProducts {
+  description: string;
+  hsPrefixes: string[];
+  reductionPercent?: number; // MFN rate cut by this share
+  reductionPoints?: number; // MFN rate cut by this many percentage points
+}
+
+export interface TradeAgreement {
+  id: string;
+  name: string;
+  validFrom: string;
+  validTo?: string;
+  reciprocal: boolean;
+  parties: string[][]; // Unilateral schemes: [grantor, beneficiaries]
+  proofOfOrigin: string;
+  preferentialRate: number;
+  sensitive?: SensitiveProducts[];
+  note?: string;
+}
+
+const AGREEMENTS: TradeAgreement[] = tradeAgreementData.agreements;
+
+function covers(agreement: TradeAgreement, originCountry: string, shipToCountry: string): boolean {
+  const importer = agreement.parties.findIndex((party) => party.includes(shipToCountry));
+  const exporter = agreement.parties.findIndex((party) => party.includes(originCountry));
+  if (importer < 0 || exporter < 0 || importer === exporter) return false;
+  return agreement.reciprocal || (importer === 0 && exporter === 1);
+}
+
+/**
+ * Agreement in force on `date` granting preference to goods of `originCountry`
+ * imported into `shipToCountry`.
+ */
+export function findAgreement(
+  originCountry: string,
+  shipToCountry: string,
+  date: Date = new Date()
+): TradeAgreement | undefined {
+  const day = date.toISOString().slice(0, 10);
+  return AGREEMENTS.find(
+    (a) =>
+      a.validFrom <= day &&
+      (!a.validTo || a.validTo >= day) &&
+      covers(a, originCountry.toUpperCase(), shipToCountry.toUpperCase())
+  );
+}
+
+function preferentialRateFor(agreement: TradeAgreement, hsCode: string, mfnRate: number): number {
+  const digits = hsCode.replace(/\D/g, '');
+  const sensitive = agreement.sensitive?.find((s) => s.hsPrefixes.some((prefix) => digits.startsWith(prefix)));
+  if (!sensitive) return Math.min(agreement.preferentialRate, mfnRate);
+
+  let rate = mfnRate;
+  if (sensitive.reductionPercent !== undefined) rate = mfnRate * (1 - sensitive.reductionPercent / 100);
+  if (sensitive.reductionPoints !== undefined) rate = mfnRate - sensitive.reductionPoints;
+  return Math.max(0, Math.round(rate * 100) / 100);
+}
+
+/**
+ * MFN and preferential rate for one line. `mfnRate` is undefined when the caller
+ * only needs to know which agreement and proof of origin apply.
+ * Returns undefined when no agreement covers the pair.
+ */
+export function assessPreference(
+  hsCode: string,
+  mfnRate: number | undefined,
+  originCountry: string,
+  shipToCountry: string,
+  claim: boolean = true
+): PreferenceAssessment | undefined {
+  const agreement = findAgreement(originCountry, shipToCountry);
+  if (!agreement) return undefined;
+
+  const preferentialRate = mfnRate === undefined ? undefined : preferentialRateFor(agreement, hsCode, mfnRate);
+  return {
+    agreement: agreement.id,
+    agreementName: agreement.name,
+    mfnRate,
+    preferentialRate,
+    proofOfOrigin: agreement.proofOfOrigin,
+    claimed: claim,
+    applied: claim && (preferentialRate === undefined || mfnRate === undefined || preferentialRate < mfnRate),
+    ...(agreement.note && { note: agreement.note }),
+  };
+}
+
+export function listAgreements(): Array<Pick<TradeAgreement, 'id' | 'name' | 'validFrom' | 'validTo' | 'reciprocal' | 'parties' | 'proofOfOrigin'>> {
+  return AGREEMENTS.map(({ id, name, validFrom, validTo, reciprocal, parties, proofOfOrigin }) => ({
+    id,
+    name,
+    validFrom,
+    validTo,
+    reciprocal,
+    parties,
+    proofOfOrigin,
+  }));
+}
@@ -0,0 +1,148 @@
+import type { DutyCalculation, DutyEngine } from '../../types/classification.js';
+import type { ShipmentDutyCalculation, ShipmentLineDuty, ShipmentLineItem } from '../../types/shipment.js';
+
+export function round2(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function formatRate(amount: number, base: number): string {
+  return base > 0 ? `${((amount / base) * 100).toFixed(1)}%` : '0%';
+}
+
+export function lineValue(item: ShipmentLineItem): number {
+  return round2(item.unitValue * item.quantity);
+}
+
+/**
+ * Fill in consignment totals and the summary breakdown from the per-line figures.
+ */
+export function summarizeShipment(
+  base: Omit<ShipmentDutyCalculation, 'totals' | 'breakdown'>,
+  taxLabel: string = 'VAT/Tax'
+): ShipmentDutyCalculation {
+  const sum = (pick: (line: ShipmentLineDuty) => number) =>
+    round2(base.lines.reduce((total, line) => total + pick(line), 0));
+
+  const productValue = sum((l) => l.lineValue);
+  const customsValue = sum((l) => l.customsValue);
+  const duties = sum((l) => l.duties.amount);
+  const taxes = sum((l) => l.taxes.amount);
+  const fees = sum((l) => l.fees);
+
+  // A single rate is only meaningful when every line shares it
+  const sharedRate = (pick: (line: ShipmentLineDuty) => string, amount: number, rateBase: number) => {
+    const rates = new Set(base.lines.map(pick));
+    return rates.size === 1 ? [...rates][0] : formatRate(amount, rateBase);
+  };
+
+  const breakdown: DutyCalculation['breakdown'] = [{ type: 'Product', kind: 'product', amount: productValue }];
+  const { valuation } = base;
+  const freight = valuation ? valuation.shippingCost + valuation.insuranceCost : 0;
+  if (valuation) {
+    if (valuation.shippingCost > 0) {
+      breakdown.push({ type: 'Shipping', kind: 'freight', amount: valuation.shippingCost });
+    }
+    if (valuation.insuranceCost > 0) {
+      breakdown.push({ type: 'Insurance', kind: 'freight', amount: valuation.insuranceCost });
+    }
+    // Informational: not part of the landed cost sum
+    breakdown.push({
+      type: `Customs Value (${valuation.method})`,
+      kind: 'valuation',
+      amount: customsValue,
+      reason: valuation.reason,
+    });
+  }
+  // Keep a zero duty line when a preference removed the duty, so the reason is visible
+  const agreements = [...new Set(base.lines.filter((l) => l.preference?.applied).map((l) => l.preference!.agreementName))];
+  if (duties > 0 || agreements.length > 0) {
+    breakdown.push({
+      type: 'Customs Duty',
+      kind: 'duty',
+      amount: duties,
+      rate: sharedRate((l) => l.duties.rate, duties, customsValue),
+      ...(agreements.length > 0 && { reason: `Preferential rate claimed under ${agreements.join(', ')}` }),
+    });
+  }
+  if (taxes > 0) {
+    breakdown.push({
+      type: taxLabel,
+      kind: 'tax',
+      amount: taxes,
+      rate: sharedRate((l) => l.taxes.rate, taxes, customsValue + duties),
+    });
+  }
+  if (fees > 0) {
+    breakdown.push({ type: 'Fees', kind: 'fee', amount: fees });
+  }
+
+  return {
+    ...base,
+    totals: {
+      productValue,
+      customsValue,
+      duties,
+      taxes,
+      fees,
+      totalLandedCost: round2(productValue + freight + duties + taxes + fees),
+    },
+    breakdown,
+  };
+}
+
+export function failedShipment(
+  engine: DutyEngine,
+  items: ShipmentLineItem[],
+  currency: string,
+  originCountry: string,
+  shipToCountry: string,
+  startTime: number,
+  error: unknown
+): ShipmentDutyCalculation {
+  const productValue = round2(items.reduce((total, item) => total + lineValue(item), 0));
+  return {
+    engine,
+    originCountry,
+    shipToCountry,
+    currency,
+    dutyType: 'duty',
+    lines: [],
+    totals: { productValue, customsValue: productValue, duties: 0, taxes: 0, fees: 0, totalLandedCost: productValue },
+    breakdown: [],
+    latencyMs: Date.now() - startTime,
+    error: error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error',
+  };
+}
+
+/**
+ * Collapse a shipment result into the single-product DutyCalculation shape.
+ */
+export function toDutyCalculation(
+  shipment: ShipmentDutyCalculation,
+  hsCode: string,
+  provider: string = shipment.engine
+): DutyCalculation {
+  const line = shipment.lines[0];
+  return {
+    provider,
+    engine: shipment.engine,
+    hsCode,
+    duties: {
+      amount: shipment.totals.duties,
+      rate: line?.duties.rate ?? '0%',
+      type: shipment.dutyType,
+    },
+    vat: { amount: shipment.totals.taxes, rate: line?.taxes.rate ?? '0%' },
+    totalLandedCost: shipment.totals.totalLandedCost,
+    breakdown: shipment.breakdown,
+    currency: shipment.currency,
+    ...(shipment.fx && { fx: shipment.fx }),
+    ...(shipment.display && { display: shipment.display }),
+    ...(shipment.deMinimis && { deMinimis: shipment.deMinimis }),
+    ...(shipment.valuation && { valuation: shipment.valuation }),
+    ...(line?.preference && { preference: line.preference }),
+    ...(shipment.tariffSchedule && { tariffSchedule: shipment.tariffSchedule }),
+    latencyMs: shipment.latencyMs,
+    ...(shipment.error && { error: shipment.error }),
+  };
+}
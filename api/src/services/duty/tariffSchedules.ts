@@ -0,0 +1,59 @@
+import euTaric2025 from '../../data/tariffs/eu-taric-2025.json';
+import usHts2025 from '../../data/tariffs/us-hts-2025.json';
+
+export interface TariffRate {
+  rate: number; // Ad valorem percentage
+  description: string;
+}
+
+export interface TariffSchedule {
+  id: string;
+  name: string;
+  version: string;
+  validFrom: string; // ISO date the schedule takes effect
+  currency: string;
+  source: string;
+  destinations: string[];
+  rates: Record<string, TariffRate>;
+}
+
+// Bundled schedules. Add a new file per release rather than editing an old one,
+// so results recorded against a version stay reproducible.
+const SCHEDULES: TariffSchedule[] = [euTaric2025, usHts2025];
+
+/**
+ * Latest schedule in effect on `date` that covers the destination country.
+ */
+export function findSchedule(shipToCountry: string, date: Date = new Date()): TariffSchedule | undefined {
+  const day = date.toISOString().slice(0, 10);
+  return SCHEDULES.filter((s) => s.destinations.includes(shipToCountry) && s.validFrom <= day).sort(
+    (a, b) => b.validFrom.localeCompare(a.validFrom)
+  )[0];
+}
+
+/**
+ * Longest-prefix lookup: a 10-digit code falls back to its CN8, HS6 and heading entries.
+ * Schedules only list even-length codes, so a 7- or 9-digit code starts one digit shorter.
+ */
+export function lookupRate(
+  schedule: TariffSchedule,
+  hsCode: string
+): { code: string; rate: TariffRate } | undefined {
+  const digits = hsCode.replace(/\D/g, '');
+  for (let length = Math.min(digits.length - (digits.length % 2), 10); length >= 4; length -= 2) {
+    const code = digits.slice(0, length);
+    const rate = schedule.rates[code];
+    if (rate) return { code, rate };
+  }
+  return undefined;
+}
+
+export function listSchedules(): Array<Pick<TariffSchedule, 'id' | 'name' | 'version' | 'validFrom' | 'destinations'>> {
+  return SCHEDULES.map(({ id, name, version, validFrom, destinations }) => ({
+    id,
+    name,
+    version,
+    validFrom,
+    destinations,
+  }));
+}
@@ -0,0 +1,68 @@
+import valuationData from '../../data/valuation-methods.json';
+import type { CustomsValuation, FreightCosts, ValuationMethod } from '../../types/classification.js';
+import { round2 } from './shipment.js';
+
+interface ValuationTable {
+  version: string;
+  default: ValuationMethod;
+  methods: Record<ValuationMethod, { label: string; destinations: string[] }>;
+}
+
+const TABLE = valuationData as ValuationTable;
+
+export function getValuationMethod(shipToCountry: string): ValuationMethod {
+  const country = shipToCountry.toUpperCase();
+  const listed = (Object.keys(TABLE.methods) as ValuationMethod[]).find((method) =>
+    TABLE.methods[method].destinations.includes(country)
+  );
+  return listed ?? TABLE.default;
+}
+
+export function hasFreightCosts(costs: FreightCosts): boolean {
+  return costs.shippingCost !== undefined || costs.insuranceCost !== undefined || costs.incoterm !== undefined;
+}
+
+/**
+ * Dutiable value of a consignment under the destination's valuation method.
+ * Costs are in the same currency as `productValue`.
+ */
+export function assessCustomsValue(
+  productValue: number,
+  costs: FreightCosts,
+  shipToCountry: string
+): CustomsValuation {
+  const method = getValuationMethod(shipToCountry);
+  const shippingCost = round2(costs.shippingCost ?? 0);
+  const insuranceCost = round2(costs.insuranceCost ?? 0);
+  const country = shipToCountry.toUpperCase();
+  const label = TABLE.methods[method].label;
+
+  const dutiableValue = method === 'CIF' ? round2(productValue + shippingCost + insuranceCost) : round2(productValue);
+  const reason =
+    method === 'CIF'
+      ? `${country} values imports on a CIF (${label}) basis: product ${productValue.toFixed(2)} + shipping ${shippingCost.toFixed(2)} + insurance ${insuranceCost.toFixed(2)}`
+      : `${country} values imports on an FOB (${label}) basis: shipping and insurance are not dutiable`;
+
+  return {
+    method,
+    productValue: round2(productValue),
+    shippingCost,
+    insuranceCost,
+    dutiableValue,
+    ...(costs.incoterm && { incoterm: costs.incoterm }),
+    reason,
+  };
+}
+
+/**
+ * Split a consignment's dutiable value across lines in proportion to line value,
+ * so the freight and insurance added under CIF land on the goods they carried.
+ */
+export function lineCustomsValues(lineValues: number[], valuation?: CustomsValuation): number[] {
+  if (!valuation) return lineValues;
+  const total = lineValues.reduce((sum, value) => sum + value, 0);
+  const added = valuation.dutiableValue - valuation.productValue;
+  return lineValues.map((value) =>
+    round2(value + (total > 0 ? added * (value / total) : added / lineValues.length))
+  );
+}
@@ -0,0 +1,8 @@
+export {
+  convert,
+  getCustomsCurrency,
+  getRateTable,
+  refreshRates,
+  toCustomsValue,
+} from './rates.js';
+export type { RateTable } from './rates.js';
@@ -0,0 +1,122 @@
+import fs from 'node:fs';
+import bundledRates from '../../data/fx/ecb-reference.json';
+import customsCurrencies from '../../data/fx/customs-currencies.json';
+import type { FxConversion } from '../../types/classification.js';
+
+export interface RateTable {
+  source: string;
+  base: string;
+  date: string; // Reference date of the rates (YYYY-MM-DD)
+  rates: Record<string, number>; // Units of currency per 1 unit of base
+}
+
+const CUSTOMS_CURRENCIES: Record<string, string> = customsCurrencies.currencies;
+
+let currentTable: RateTable = loadInitialTable();
+
+/**
+ * FX_RATES_FILE (if set and readable) takes precedence over the bundled ECB snapshot.
+ */
+function loadInitialTable(): RateTable {
+  const file = process.env.FX_RATES_FILE;
+  if (file && fs.existsSync(file)) {
+    try {
+      return parseRateTable(JSON.parse(fs.readFileSync(file, 'utf8')));
+    } catch (error) {
+      console.error(`[FX] Ignoring unreadable FX_RATES_FILE ${file}:`, error);
+    }
+  }
+  return bundledRates;
+}
+
+function parseRateTable(data: unknown): RateTable {
+  const table = data as Partial<RateTable>;
+  if (!table?.base || !table.date || !table.rates || typeof table.rates !== 'object') {
+    throw new Error('Rate table must have base, date and rates');
+  }
+  return {
+    source: table.source || 'custom',
+    base: table.base.toUpperCase(),
+    date: table.date,
+    rates: table.rates,
+  };
+}
+
+export function getRateTable(): RateTable {
+  return currentTable;
+}
+
+/**
+ * Fetch the latest table from FX_RATES_URL (same JSON shape as the bundled file)
+ * and cache it to FX_RATES_FILE so a restart without network keeps the same rates.
+ * Returns the table in use afterwards.
+ */
+export async function refreshRates(): Promise<RateTable> {
+  const url = process.env.FX_RATES_URL;
+  if (!url) return currentTable;
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`FX source error: ${response.status} ${response.statusText}`);
+  }
+  const table = parseRateTable(await response.json());
+  currentTable = table;
+
+  const file = process.env.FX_RATES_FILE;
+  if (file) {
+    fs.writeFileSync(file, JSON.stringify(table, null, 2));
+  }
+  console.log(`[FX] Loaded ${Object.keys(table.rates).length} rates for ${table.date} from ${url}`);
+  return table;
+}
+
+function unitsPerBase(currency: string, table: RateTable): number {
+  if (currency === table.base) return 1;
+  const rate = table.rates[currency];
+  if (!rate) {
+    throw new Error(`No ${table.base} reference rate for ${currency}`);
+  }
+  return rate;
+}
+
+/**
+ * Convert via the table's base currency. The returned rate is `to` per 1 `from`.
+ */
+export function convert(amount: number, from: string, to: string): FxConversion {
+  const table = currentTable;
+  const fromCode = from.toUpperCase();
+  const toCode = to.toUpperCase();
+  const rate = unitsPerBase(toCode, table) / unitsPerBase(fromCode, table);
+
+  return {
+    from: fromCode,
+    to: toCode,
+    originalAmount: amount,
+    amount: Math.round(amount * rate * 100) / 100,
+    rate,
+    rateDate: table.date,
+    source: table.source,
+  };
+}
+
+/** Currency a destination values imports in, if known */
+export function getCustomsCurrency(countryCode: string): string | undefined {
+  return CUSTOMS_CURRENCIES[countryCode.toUpperCase()];
+}
+
+/**
+ * Express a value in the destination's customs valuation currency.
+ * `fx` is only set when a conversion was needed.
+ */
+export function toCustomsValue(
+  amount: number,
+  currency: string,
+  shipToCountry: string
+): { amount: number; currency: string; fx?: FxConversion } {
+  const customsCurrency = getCustomsCurrency(shipToCountry);
+  if (!customsCurrency || customsCurrency === currency.toUpperCase()) {
+    return { amount, currency: currency.toUpperCase() };
+  }
+  const fx = convert(amount, currency, customsCurrency);
+  return { amount: fx.amount, currency: customsCurrency, fx };
+}
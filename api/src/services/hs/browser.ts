@@ -0,0 +1,146 @@
+import type { HsLookup, HsNode } from '../../types/hs.js';
+import { formatHsCode, normalizeHsCode } from './codes.js';
+import { getNomenclature, headingExists, validateHsCode } from './nomenclature.js';
+
+// The bundled nomenclature is a subset: every section and chapter, but headings and
+// subheadings only where the tariff schedules have rates. Search and children listings
+// therefore miss most of the Harmonized System.
+const nomenclature = getNomenclature();
+
+function sectionNode(id: string): HsNode | undefined {
+  const section = nomenclature.sections.find((s) => s.id === id);
+  if (!section) return undefined;
+  return { code: section.id, formatted: `Section ${section.id}`, level: 'section', description: section.title, hasChildren: true };
+}
+
+function sectionOf(chapter: string): HsNode | undefined {
+  const section = nomenclature.sections.find((s) => s.chapters[0] <= chapter && chapter <= s.chapters[1]);
+  return section && sectionNode(section.id);
+}
+
+function chapterNode(code: string): HsNode | undefined {
+  const chapter = nomenclature.chapters[code];
+  if (chapter) {
+    return { code, formatted: code, level: 'chapter', description: chapter.title, hasChildren: headingsOf(code).length > 0 };
+  }
+  const national = nomenclature.nationalChapters[code];
+  return national ? { code, formatted: code, level: 'chapter', description: national, hasChildren: false } : undefined;
+}
+
+function headingNode(code: string): HsNode | undefined {
+  const heading = nomenclature.headings[code];
+  if (!heading) return undefined;
+  return { code, formatted: code, level: 'heading', description: heading.description, hasChildren: !!heading.subheadings };
+}
+
+function subheadingNode(code: string): HsNode | undefined {
+  const description = nomenclature.headings[code.slice(0, 4)]?.subheadings?.[code];
+  if (!description) return undefined;
+  return { code, formatted: formatHsCode(code), level: 'subheading', description, hasChildren: false };
+}
+
+function headingsOf(chapter: string): string[] {
+  return Object.keys(nomenclature.headings).filter((code) => code.startsWith(chapter));
+}
+
+export function listSections(): HsNode[] {
+  return nomenclature.sections.map((s) => sectionNode(s.id)!);
+}
+
+/**
+ * A chapter (2 digits), heading (4 digits) or valid code with its section, chapter,
+ * heading and subheading texts. Returns undefined for codes the nomenclature rejects.
+ */
+export function lookupHsCode(raw: string): HsLookup | undefined {
+  const code = normalizeHsCode(raw);
+  if (code.length === 2 || code.length === 4) {
+    const chapter = chapterNode(code.slice(0, 2));
+    if (!chapter || (code.length === 4 && !headingExists(code))) return undefined;
+    return {
+      code,
+      formatted: code,
+      verifiedTo: code.length === 2 ? 'chapter' : 'heading',
+      section: sectionOf(chapter.code),
+      chapter,
+      ...(code.length === 4 && { heading: headingNode(code) }),
+    };
+  }
+
+  const validation = validateHsCode(raw);
+  if (!validation.valid || !validation.levels || !validation.verifiedTo) return undefined;
+
+  const { hs2, hs4, hs6 } = validation.levels;
+  const chapter = chapterNode(hs2)!;
+  return {
+    code: validation.code,
+    formatted: formatHsCode(validation.code),
+    verifiedTo: validation.verifiedTo,
+    section: sectionOf(hs2),
+    chapter,
+    heading: headingNode(hs4),
+    subheading: subheadingNode(hs6),
+    ...(validation.code.length > 6 && { national: validation.code.slice(6) }),
+  };
+}
+
+/**
+ * Nodes one level below a section (I–XXI), chapter (2 digits) or heading (4 digits).
+ * Returns undefined when the parent does not exist.
+ */
+export function listChildren(parent: string): HsNode[] | undefined {
+  const section = nomenclature.sections.find((s) => s.id === parent.toUpperCase());
+  if (section) {
+    const [first, last] = section.chapters;
+    return Object.keys(nomenclature.chapters)
+      .filter((code) => first <= code && code <= last)
+      .map((code) => chapterNode(code)!);
+  }
+
+  const code = normalizeHsCode(parent);
+  if (code.length === 2) {
+    if (!chapterNode(code)) return undefined;
+    return headingsOf(code).map((heading) => headingNode(heading)!);
+  }
+  if (code.length === 4) {
+    const heading = nomenclature.headings[code];
+    if (!heading) return headingExists(code) ? [] : undefined;
+    return Object.keys(heading.subheadings ?? {}).map((sub) => subheadingNode(sub)!);
+  }
+  return undefined;
+}
+
+/**
+ * Case-insensitive search over chapter, heading and subheading texts.
+ * Every word of the query must appear; a numeric query matches code prefixes instead.
+ */
+export function searchNomenclature(query: string, limit: number = 20): HsNode[] {
+  const nodes: HsNode[] = [
+    ...Object.keys(nomenclature.chapters).map((code) => chapterNode(code)!),
+    ...Object.keys(nomenclature.headings).flatMap((code) => [
+      headingNode(code)!,
+      ...Object.keys(nomenclature.headings[code].subheadings ?? {}).map((sub) => subheadingNode(sub)!),
+    ]),
+  ];
+
+  const digits = normalizeHsCode(query);
+  if (/^\d+$/.test(digits)) {
+    return nodes.filter((node) => node.code.startsWith(digits)).slice(0, limit);
+  }
+
+  const words = query.toLowerCase().split(/\W+/).filter((w) => w.length > 1);
+  if (words.length === 0) return [];
+
+  return nodes
+    .map((node) => {
+      // Subheading texts like "Of cotton" only make sense with their heading
+      const text = `${node.description} ${node.level === 'subheading' ? headingNode(node.code.slice(0, 4))!.description : ''}`.toLowerCase();
+      // Prefer hits in the node's own text, then more specific codes
+      const own = words.filter((word) => node.description.toLowerCase().includes(word)).length;
+      const matched = own > 0 && words.every((word) => text.includes(word));
+      return { node, matched, score: own * 10 + node.code.length };
+    })
+    .filter((hit) => hit.matched)
+    .sort((a, b) => b.score - a.score || a.node.code.localeCompare(b.node.code))
+    .slice(0, limit)
+    .map((hit) => hit.node);
+}
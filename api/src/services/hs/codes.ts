@@ -0,0 +1,61 @@
+import { HS_MATCH_LEVELS, type HsLevels, type HsMatchLevel } from '../../types/hs.js';
+
+/** Shortest and longest codes accepted: an HS6 subheading up to a 10-digit national line */
+export const MIN_HS_DIGITS = 6;
+export const MAX_HS_DIGITS = 10;
+
+/**
+ * Digits only: `6202.40`, `6202 40` and `620240` all normalize to `620240`.
+ */
+export function normalizeHsCode(raw: string): string {
+  return raw.replace(/[\s.\-]/g, '');
+}
+
+/** `6202400010` → `6202.40.0010` */
+export function formatHsCode(code: string): string {
+  const digits = normalizeHsCode(code);
+  return [digits.slice(0, 4), digits.slice(4, 6), digits.slice(6)].filter(Boolean).join('.');
+}
+
+export function hsLevels(code: string): HsLevels {
+  const digits = normalizeHsCode(code);
+  return {
+    hs2: digits.slice(0, 2),
+    hs4: digits.slice(0, 4),
+    hs6: digits.slice(0, 6),
+    ...(digits.length >= 8 && { cn8: digits.slice(0, 8) }),
+    ...(digits.length >= 10 && { hts10: digits.slice(0, 10) }),
+  };
+}
+
+/** Same code once formatting is ignored */
+export function sameHsCode(a: string, b: string): boolean {
+  return normalizeHsCode(a) === normalizeHsCode(b);
+}
+
+export function sameHs6(a: string, b: string): boolean {
+  return normalizeHsCode(a).slice(0, 6) === normalizeHsCode(b).slice(0, 6);
+}
+
+/** Same first `digits` digits; false when either code is shorter than that */
+export function sameHsPrefix(a: string, b: string, digits: number): boolean {
+  const left = normalizeHsCode(a);
+  const right = normalizeHsCode(b);
+  return left.length >= digits && right.length >= digits && left.slice(0, digits) === right.slice(0, digits);
+}
+
+const LEVEL_DIGITS: Record<Exclude<HsMatchLevel, 'exact'>, number> = { hs8: 8, hs6: 6, hs4: 4, hs2: 2 };
+
+export function matchesAtLevel(level: HsMatchLevel, code: string, expected: string): boolean {
+  return level === 'exact' ? sameHsCode(code, expected) : sameHsPrefix(code, expected, LEVEL_DIGITS[level]);
+}
+
+/** Levels a verified code can judge: HS8 needs a code of 8 digits or more */
+export function assessableLevels(expected: string): HsMatchLevel[] {
+  return HS_MATCH_LEVELS.filter((level) => level !== 'hs8' || normalizeHsCode(expected).length >= 8);
+}
+
+/** Most specific level at which `code` matches `expected`, if any */
+export function deepestMatch(code: string, expected: string): HsMatchLevel | undefined {
+  return assessableLevels(expected).find((level) => matchesAtLevel(level, code, expected));
+}
@@ -0,0 +1,23 @@
+export {
+  MAX_HS_DIGITS,
+  MIN_HS_DIGITS,
+  assessableLevels,
+  deepestMatch,
+  formatHsCode,
+  hsLevels,
+  matchesAtLevel,
+  normalizeHsCode,
+  sameHs6,
+  sameHsPrefix,
+  sameHsCode,
+} from './codes.js';
+export {
+  assertValidHsCode,
+  classificationCodes,
+  getNomenclature,
+  headingExists,
+  isValidHsCode,
+  validateHsCode,
+} from './nomenclature.js';
+export { listChildren, listSections, lookupHsCode, searchNomenclature } from './browser.js';
+export type { HsChapter, HsHeading, HsNomenclature, HsSection } from './nomenclature.js';
@@ -0,0 +1,142 @@
+import nomenclatureData from '../../data/hs/nomenclature-2022.json';
+import type { HsValidation } from '../../types/hs.js';
+import { MAX_HS_DIGITS, MIN_HS_DIGITS, formatHsCode, hsLevels, normalizeHsCode } from './codes.js';
+
+export interface HsChapter {
+  title: string;
+  lastHeading: number;
+  missingHeadings?: string[]; // Deleted in a past HS revision
+}
+
+export interface HsHeading {
+  description: string;
+  subheadings?: Record<string, string>; // Absent when only the heading text is bundled
+}
+
+export interface HsSection {
+  id: string; // Roman numeral
+  chapters: string[]; // [first, last], inclusive
+  title: string;
+}
+
+export interface HsNomenclature {
+  version: string;
+  description: string; // What the bundled subset covers
+  sections: HsSection[];
+  chapters: Record<string, HsChapter>;
+  nationalChapters: Record<string, string>; // 98/99: national use, not verifiable here
+  headings: Record<string, HsHeading>;
+}
+
+const NOMENCLATURE: HsNomenclature = nomenclatureData;
+
+export function getNomenclature(): HsNomenclature {
+  return NOMENCLATURE;
+}
+
+/** Whether a 4-digit heading is in its chapter's range and was not deleted */
+export function headingExists(code: string): boolean {
+  const chapter = NOMENCLATURE.chapters[code.slice(0, 2)];
+  if (!chapter || !/^\d{4}$/.test(code)) return false;
+  const number = Number(code.slice(2));
+  return number >= 1 && number <= chapter.lastHeading && !chapter.missingHeadings?.includes(code);
+}
+
+/**
+ * Check a code's format, that its chapter exists and that its heading is within the
+ * chapter's range. The bundled headings and subheadings are a subset, so a level
+ * missing from them leaves the code valid but only verified to the level above.
+ */
+export function validateHsCode(raw: string): HsValidation {
+  const code = normalizeHsCode(raw);
+  const result: HsValidation = { input: raw, code, valid: false, errors: [] };
+
+  if (!/^\d+$/.test(code)) {
+    result.errors.push('HS code must contain only digits (dots and spaces are ignored)');
+    return result;
+  }
+  if (code.length < MIN_HS_DIGITS || code.length > MAX_HS_DIGITS) {
+    result.errors.push(`HS code must have ${MIN_HS_DIGITS} to ${MAX_HS_DIGITS} digits, got ${code.length}`);
+    return result;
+  }
+
+  const levels = hsLevels(code);
+  result.levels = levels;
+
+  const national = NOMENCLATURE.nationalChapters[levels.hs2];
+  if (national) {
+    result.chapter = { code: levels.hs2, title: national };
+    result.verifiedTo = 'chapter';
+    result.valid = true;
+    return result;
+  }
+
+  const chapter = NOMENCLATURE.chapters[levels.hs2];
+  if (!chapter) {
+    result.errors.push(`Chapter ${levels.hs2} does not exist`);
+    return result;
+  }
+  result.chapter = { code: levels.hs2, title: chapter.title };
+
+  if (!headingExists(levels.hs4)) {
+    result.errors.push(`Heading ${levels.hs4} does not exist in chapter ${levels.hs2}`);
+    return result;
+  }
+
+  result.valid = true;
+  const heading = NOMENCLATURE.headings[levels.hs4];
+  result.heading = { code: levels.hs4, ...(heading && { description: heading.description }) };
+  if (!heading?.subheadings) {
+    result.verifiedTo = 'heading';
+    return result;
+  }
+
+  const subheading = heading.subheadings[levels.hs6];
+  if (!subheading) {
+    result.verifiedTo = 'heading';
+    result.unverified = `Subheading ${formatHsCode(levels.hs6)} is not in the bundled nomenclature`;
+    return result;
+  }
+  result.subheading = { code: levels.hs6, description: subheading };
+  result.verifiedTo = 'subheading';
+  return result;
+}
+
+export function isValidHsCode(raw: string): boolean {
+  return validateHsCode(raw).valid;
+}
+
+/**
+ * Normalized code, or an error naming why it was rejected.
+ */
+export function assertValidHsCode(raw: string): string {
+  const validation = validateHsCode(raw);
+  if (!validation.valid) {
+    throw new Error(`Invalid HS code "${raw}": ${validation.errors.join('; ')}`);
+  }
+  return validation.code;
+}
+
+/**
+ * The hsCode/hsCode6/hsCode8 triple a classifier reports, normalized and validated.
+ * Throws when the provider returned a malformed code or one whose chapter or heading
+ * does not exist; subheadings outside the bundled subset are accepted.
+ */
+export function classificationCodes(parsed: {
+  hsCode?: string;
+  hsCode6?: string;
+  hsCode8?: string;
+}): { hsCode: string; hsCode6: string; hsCode8?: string } {
+  const raw = parsed.hsCode || parsed.hsCode6;
+  if (!raw) {
+    throw new Error('No HS code in provider response');
+  }
+  const hsCode = assertValidHsCode(raw);
+  const levels = hsLevels(hsCode);
+  const hsCode8 = parsed.hsCode8 ? normalizeHsCode(parsed.hsCode8) : levels.cn8;
+  return {
+    hsCode,
+    hsCode6: levels.hs6,
+    ...(hsCode8 && { hsCode8 }),
+  };
+}
@@ -0,0 +1,27 @@
+export {
+  ADJUDICATION_OUTPUT,
+  AdjudicationOutputSchema,
+  CLARIFYING_OUTPUT,
+  CLASSIFICATION_OUTPUT,
+  ClarifyingOutputSchema,
+  ClassificationOutputSchema,
+  VOICE_COMMAND_OUTPUT,
+  VoiceCommandSchema,
+} from './schemas.js';
+export type {
+  AdjudicationOutput,
+  ClarifyingOutput,
+  ClassificationOutput,
+  StructuredOutput,
+  VoiceCommand,
+} from './schemas.js';
+export {
+  MAX_OUTPUT_ATTEMPTS,
+  anthropicStructured,
+  checkOutput,
+  describeOutputError,
+  openaiStructured,
+  repairJson,
+} from './structured.js';
+export type { StructuredResult } from './structured.js';
+export { configuredModel, modelParams, resolveModel } from './models.js';
@@ -0,0 +1,46 @@
+import type { ModelOverride, ModelRole, ModelSettings } from '../../types/models.js';
+
+const DEFAULT_MODELS: Record<ModelRole, ModelSettings> = {
+  anthropic: { model: 'claude-sonnet-4-20250514', maxTokens: 1024 },
+  openai: { model: 'gpt-4o', maxTokens: 1024 },
+  adjudicator: { model: 'claude-sonnet-4-20250514', maxTokens: 1024 },
+  voice: { model: 'claude-sonnet-4-20250514', maxTokens: 256 },
+};
+
+/** Unset or unparseable values fall back to the default */
+function envNumber(name: string): number | undefined {
+  const raw = process.env[name];
+  if (!raw) return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * A role's settings from the environment (<ROLE>_MODEL, <ROLE>_TEMPERATURE,
+ * <ROLE>_MAX_TOKENS, e.g. OPENAI_MODEL), over the built-in defaults.
+ */
+export function configuredModel(role: ModelRole): ModelSettings {
+  const prefix = role.toUpperCase();
+  const defaults = DEFAULT_MODELS[role];
+  const temperature = envNumber(`${prefix}_TEMPERATURE`) ?? defaults.temperature;
+  return {
+    model: process.env[`${prefix}_MODEL`] || defaults.model,
+    ...(temperature !== undefined && { temperature }),
+    maxTokens: envNumber(`${prefix}_MAX_TOKENS`) ?? defaults.maxTokens,
+  };
+}
+
+/** The configured settings with a comparison's override applied field by field */
+export function resolveModel(role: ModelRole, override: ModelOverride = {}): ModelSettings {
+  const set = Object.fromEntries(Object.entries(override).filter(([, value]) => value !== undefined));
+  return { ...configuredModel(role), ...set };
+}
+
+/** As Messages / Chat Completions parameters; both APIs name them the same */
+export function modelParams(settings: ModelSettings): { model: string; max_tokens: number; temperature?: number } {
+  return {
+    model: settings.model,
+    max_tokens: settings.maxTokens,
+    ...(settings.temperature !== undefined && { temperature: settings.temperature }),
+  };
+}
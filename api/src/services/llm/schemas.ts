@@ -0,0 +1,194 @@
+import { z } from 'zod';
+import { normalizeHsCode, validateHsCode } from '../hs/index.js';
+
+/**
+ * An output the model must produce: a zod schema to validate it, and the JSON
+ * Schema the SDKs send as the tool's parameters. Keep the two in step.
+ */
+export interface StructuredOutput<T> {
+  name: string; // Tool / function name
+  description: string;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  jsonSchema: Record<string, unknown>;
+}
+
+// Nomenclature errors are fed back to the model, so a non-existent code gets a second chance
+const HsCodeField = z.string().superRefine((raw, ctx) => {
+  const validation = validateHsCode(raw);
+  if (!validation.valid) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: validation.errors.join('; ') });
+  }
+});
+
+const OptionalCodeField = z
+  .string()
+  .refine((raw) => /^\d+$/.test(normalizeHsCode(raw)), 'Must contain only digits, dots and spaces')
+  .optional();
+
+const AlternativeSchema = z.object({
+  hsCode: HsCodeField,
+  description: z.string().default(''),
+  confidence: z.number().min(0).max(1),
+  reasoning: z.string().optional(),
+});
+
+export const ClassificationOutputSchema = z.object({
+  hsCode: HsCodeField,
+  hsCode6: OptionalCodeField,
+  hsCode8: OptionalCodeField,
+  description: z.string().default(''),
+  confidence: z.number().min(0).max(1),
+  reasoning: z.string().optional(),
+  productIdentified: z.string().optional(),
+  estimatedValueEUR: z.number().nonnegative().optional(),
+  alternatives: z.array(AlternativeSchema).max(5).default([]),
+});
+
+export type ClassificationOutput = z.infer<typeof ClassificationOutputSchema>;
+
+export const CLASSIFICATION_OUTPUT: StructuredOutput<ClassificationOutput> = {
+  name: 'record_classification',
+  description: 'Record the HS code classification of the product',
+  schema: ClassificationOutputSchema,
+  jsonSchema: {
+    type: 'object',
+    properties: {
+      hsCode: { type: 'string', description: 'Most specific HS code (6-10 digits), dotted for readability, e.g. 6109.10.0010' },
+      hsCode6: { type: 'string', description: 'Universal 6-digit subheading, e.g. 6109.10' },
+      hsCode8: { type: 'string', description: 'EU 8-digit CN code, when applicable' },
+      description: { type: 'string', description: 'Official HS description for the code' },
+      confidence: { type: 'number', minimum: 0, maximum: 1, description: 'Confidence from 0 to 1' },
+      reasoning: { type: 'string', description: 'Brief explanation of the classification logic' },
+      productIdentified: { type: 'string', description: 'What product was identified in the image' },
+      estimatedValueEUR: { type: 'number', minimum: 0, description: 'Estimated retail value in EUR' },
+      alternatives: {
+        type: 'array',
+        maxItems: 5,
+        description: 'Other plausible codes when the classification is ambiguous, most likely first',
+        items: {
+          type: 'object',
+          properties: {
+            hsCode: { type: 'string' },
+            description: { type: 'string' },
+            confidence: { type: 'number', minimum: 0, maximum: 1 },
+            reasoning: { type: 'string', description: 'Why this code could apply instead' },
+          },
+          required: ['hsCode', 'description', 'confidence'],
+        },
+      },
+    },
+    required: ['hsCode', 'description', 'confidence'],
+  },
+};
+
+const QuestionSchema = z.object({
+  question: z.string().min(1),
+  options: z.array(z.string().min(1)).max(6).optional(),
+  reason: z.string().optional(),
+});
+
+/** A classification that may also ask the user for the facts it hinges on */
+export const ClarifyingOutputSchema = ClassificationOutputSchema.extend({
+  questions: z.array(QuestionSchema).max(3).default([]),
+});
+
+export type ClarifyingOutput = z.infer<typeof ClarifyingOutputSchema>;
+
+export const CLARIFYING_OUTPUT: StructuredOutput<ClarifyingOutput> = {
+  name: CLASSIFICATION_OUTPUT.name,
+  description: 'Record the HS code classification of the product, with any questions that would settle it',
+  schema: ClarifyingOutputSchema,
+  jsonSchema: {
+    ...CLASSIFICATION_OUTPUT.jsonSchema,
+    properties: {
+      ...(CLASSIFICATION_OUTPUT.jsonSchema.properties as Record<string, unknown>),
+      questions: {
+        type: 'array',
+        maxItems: 3,
+        description: 'Questions for the user whose answers would change or confirm the code; empty when none would',
+        items: {
+          type: 'object',
+          properties: {
+            question: { type: 'string', description: 'One short question, e.g. "Is the upper leather or textile?"' },
+            options: { type: 'array', items: { type: 'string' }, maxItems: 6, description: 'Likely answers to offer as choices' },
+            reason: { type: 'string', description: 'Which codes the answer decides between' },
+          },
+          required: ['question'],
+        },
+      },
+    },
+  },
+};
+
+export const AdjudicationOutputSchema = z.object({
+  hsCode: HsCodeField,
+  description: z.string().default(''),
+  confidence: z.number().min(0).max(1),
+  reasoning: z.string(),
+});
+
+export type AdjudicationOutput = z.infer<typeof AdjudicationOutputSchema>;
+
+export const ADJUDICATION_OUTPUT: StructuredOutput<AdjudicationOutput> = {
+  name: 'record_decision',
+  description: 'Record the HS code chosen from the candidates',
+  schema: AdjudicationOutputSchema,
+  jsonSchema: {
+    type: 'object',
+    properties: {
+      hsCode: { type: 'string', description: 'The chosen candidate code, as proposed, e.g. 6109.10.00' },
+      description: { type: 'string', description: 'Official HS description for the code' },
+      confidence: { type: 'number', minimum: 0, maximum: 1, description: 'Confidence in the decision from 0 to 1' },
+      reasoning: { type: 'string', description: 'Why this candidate is right and the others are not' },
+    },
+    required: ['hsCode', 'confidence', 'reasoning'],
+  },
+};
+
+const Confidence = z.number().min(0).max(1);
+const CountryCommand = {
+  confidence: Confidence,
+  countryCode: z.string().regex(/^[A-Z]{2}$/, 'Must be an ISO 3166-1 alpha-2 code'),
+  countryName: z.string().optional(),
+};
+
+export const VoiceCommandSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('capture'), confidence: Confidence }),
+  z.object({ type: z.literal('ship_from'), ...CountryCommand }),
+  z.object({ type: z.literal('ship_to'), ...CountryCommand }),
+  z.object({
+    type: z.literal('product_info'),
+    confidence: Confidence,
+    productName: z.string().optional(),
+    productValue: z.number().positive().optional(),
+    currency: z.string().length(3).default('EUR'),
+  }),
+  z.object({ type: z.literal('navigation'), confidence: Confidence, destination: z.enum(['back', 'history', 'home']) }),
+  z.object({ type: z.null(), confidence: Confidence }),
+]);
+
+export type VoiceCommand = z.infer<typeof VoiceCommandSchema>;
+
+export const VOICE_COMMAND_OUTPUT: StructuredOutput<VoiceCommand> = {
+  name: 'record_command',
+  description: 'Record the command parsed from the transcript',
+  schema: VoiceCommandSchema,
+  jsonSchema: {
+    type: 'object',
+    properties: {
+      type: {
+        type: ['string', 'null'],
+        enum: ['capture', 'ship_from', 'ship_to', 'product_info', 'navigation', null],
+        description: 'Command type, or null when the transcript is not a command',
+      },
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+      countryCode: { type: 'string', description: 'ISO 2-letter country code (ship_from, ship_to)' },
+      countryName: { type: 'string' },
+      productName: { type: 'string' },
+      productValue: { type: 'number' },
+      currency: { type: 'string', description: 'ISO currency code, EUR if not specified' },
+      destination: { type: 'string', enum: ['back', 'history', 'home'] },
+    },
+    required: ['type', 'confidence'],
+  },
+};
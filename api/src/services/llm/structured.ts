@@ -0,0 +1,172 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import type OpenAI from 'openai';
+import type { OutputError, TokenUsage } from '../../types/classification.js';
+import type { StructuredOutput } from './schemas.js';
+
+/** Calls per request, including the first; each retry shows the model what was wrong */
+export const MAX_OUTPUT_ATTEMPTS = Number(process.env.LLM_OUTPUT_ATTEMPTS) || 3;
+
+const MAX_RECORDED_OUTPUT = 500;
+
+export type StructuredResult<T> =
+  | { ok: true; data: T; attempts: number; usage?: TokenUsage }
+  | { ok: false; error: OutputError; usage?: TokenUsage };
+
+type Check<T> = { ok: true; data: T } | { ok: false; type: OutputError['type']; issues: string[] };
+
+/**
+ * Parse JSON the way models tend to get it wrong: wrapped in a code fence or prose,
+ * or with trailing commas. Throws when nothing parseable remains.
+ */
+export function repairJson(text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?\s*|```/g, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('No JSON object in output');
+  }
+  const candidate = unfenced.slice(start, end + 1);
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return JSON.parse(candidate.replace(/,\s*([}\]])/g, '$1'));
+  }
+}
+
+export function checkOutput<T>(output: StructuredOutput<T>, raw: unknown): Check<T> {
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = repairJson(raw);
+    } catch (error) {
+      return { ok: false, type: 'invalid_json', issues: [error instanceof Error ? error.message : 'Invalid JSON'] };
+    }
+  }
+
+  const parsed = output.schema.safeParse(value);
+  if (parsed.success) return { ok: true, data: parsed.data };
+  return {
+    ok: false,
+    type: 'schema_mismatch',
+    issues: parsed.error.errors.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+  };
+}
+
+export function describeOutputError(error: OutputError): string {
+  const attempts = error.attempts === 1 ? '1 attempt' : `${error.attempts} attempts`;
+  return `Unusable model output after ${attempts}: ${error.issues.join('; ')}`;
+}
+
+function feedback(output: StructuredOutput<unknown>, issues: string[]): string {
+  return `The ${output.name} call was invalid:\n${issues.map((issue) => `- ${issue}`).join('\n')}\nCall ${output.name} again with every problem fixed.`;
+}
+
+function truncate(raw: unknown): string | undefined {
+  if (raw === undefined) return undefined;
+  const text = typeof raw === 'string' ? raw : JSON.stringify(raw);
+  return text.length > MAX_RECORDED_OUTPUT ? `${text.slice(0, MAX_RECORDED_OUTPUT)}…` : text;
+}
+
+function addUsage(total: TokenUsage | undefined, model: string, input: number, output: number): TokenUsage {
+  return {
+    model,
+    inputTokens: (total?.inputTokens ?? 0) + input,
+    outputTokens: (total?.outputTokens ?? 0) + output,
+  };
+}
+
+/**
+ * Claude with a forced tool call. A call that fails validation is answered with an
+ * error tool_result listing the problems, and the model tries again.
+ */
+export async function anthropicStructured<T>(
+  client: Anthropic,
+  params: Omit<Anthropic.MessageCreateParamsNonStreaming, 'tools' | 'tool_choice'>,
+  output: StructuredOutput<T>
+): Promise<StructuredResult<T>> {
+  const messages = [...params.messages];
+  let usage: TokenUsage | undefined;
+  let last: { type: OutputError['type']; issues: string[]; raw?: unknown } = { type: 'no_output', issues: [] };
+
+  for (let attempt = 1; attempt <= MAX_OUTPUT_ATTEMPTS; attempt++) {
+    const response = await client.messages.create({
+      ...params,
+      messages,
+      tools: [{ name: output.name, description: output.description, input_schema: output.jsonSchema as Anthropic.Tool.InputSchema }],
+      tool_choice: { type: 'tool', name: output.name },
+    });
+    usage = addUsage(usage, response.model, response.usage.input_tokens, response.usage.output_tokens);
+
+    const toolUse = response.content.find((block) => block.type === 'tool_use' && block.name === output.name);
+    const text = response.content.find((block) => block.type === 'text');
+    const raw = toolUse?.type === 'tool_use' ? toolUse.input : text?.type === 'text' ? text.text : undefined;
+
+    const check: Check<T> =
+      raw === undefined ? { ok: false, type: 'no_output', issues: ['No tool call or text in response'] } : checkOutput(output, raw);
+    if (check.ok) return { ok: true, data: check.data, attempts: attempt, usage };
+    last = { ...check, raw };
+
+    messages.push({ role: 'assistant', content: response.content });
+    messages.push({
+      role: 'user',
+      content:
+        toolUse?.type === 'tool_use'
+          ? [{ type: 'tool_result', tool_use_id: toolUse.id, is_error: true, content: feedback(output, check.issues) }]
+          : feedback(output, check.issues),
+    });
+  }
+
+  return {
+    ok: false,
+    error: { type: last.type, attempts: MAX_OUTPUT_ATTEMPTS, issues: last.issues, output: truncate(last.raw) },
+    usage,
+  };
+}
+
+/**
+ * OpenAI with a forced function call, retried the same way. The arguments arrive as
+ * a JSON string, so they also go through repairJson.
+ */
+export async function openaiStructured<T>(
+  client: OpenAI,
+  params: Omit<OpenAI.Chat.ChatCompletionCreateParamsNonStreaming, 'tools' | 'tool_choice'>,
+  output: StructuredOutput<T>
+): Promise<StructuredResult<T>> {
+  const messages = [...params.messages];
+  let usage: TokenUsage | undefined;
+  let last: { type: OutputError['type']; issues: string[]; raw?: unknown } = { type: 'no_output', issues: [] };
+
+  for (let attempt = 1; attempt <= MAX_OUTPUT_ATTEMPTS; attempt++) {
+    const response = await client.chat.completions.create({
+      ...params,
+      messages,
+      tools: [{ type: 'function', function: { name: output.name, description: output.description, parameters: output.jsonSchema } }],
+      tool_choice: { type: 'function', function: { name: output.name } },
+    });
+    if (response.usage) {
+      usage = addUsage(usage, response.model, response.usage.prompt_tokens, response.usage.completion_tokens);
+    }
+
+    const message = response.choices[0]?.message;
+    const toolCall = message?.tool_calls?.find((call) => call.function.name === output.name);
+    const raw = toolCall?.function.arguments ?? message?.content ?? undefined;
+
+    const check: Check<T> =
+      raw === undefined ? { ok: false, type: 'no_output', issues: ['No function call or content in response'] } : checkOutput(output, raw);
+    if (check.ok) return { ok: true, data: check.data, attempts: attempt, usage };
+    last = { ...check, raw };
+
+    if (message) messages.push(message);
+    messages.push(
+      toolCall
+        ? { role: 'tool', tool_call_id: toolCall.id, content: feedback(output, check.issues) }
+        : { role: 'user', content: feedback(output, check.issues) }
+    );
+  }
+
+  return {
+    ok: false,
+    error: { type: last.type, attempts: MAX_OUTPUT_ATTEMPTS, issues: last.issues, output: truncate(last.raw) },
+    usage,
+  };
+}
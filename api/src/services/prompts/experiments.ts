@@ -0,0 +1,101 @@
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import type { ProviderName, ProviderRecord } from '../../types/classification.js';
+import type { PromptExperiment } from '../../types/prompts.js';
+import { getComparisonRepository } from '../storage/index.js';
+import { getDefaultPrompt, getPrompt, listPrompts } from './registry.js';
+
+let experiments: ProviderRecord<PromptExperiment> | undefined;
+
+const ExperimentsSchema = z.record(z.string(), z.record(z.string(), z.number().nonnegative()));
+
+/** PROMPT_EXPERIMENTS, e.g. {"anthropic":{"v1":80,"v2":20}}; every version must be registered */
+function parseExperiments(raw: string | undefined): ProviderRecord<PromptExperiment> {
+  if (!raw) return {};
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new Error('PROMPT_EXPERIMENTS is not valid JSON');
+  }
+  const parsed = ExperimentsSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error('PROMPT_EXPERIMENTS must map providers to { version: weight } objects');
+  }
+  const unknown = Object.entries(parsed.data).flatMap(([provider, weights]) =>
+    Object.keys(weights)
+      .filter((version) => !getPrompt(provider, version))
+      .map((version) => `${provider}@${version}`)
+  );
+  if (unknown.length > 0) {
+    throw new Error(`PROMPT_EXPERIMENTS names unknown prompt versions: ${unknown.join(', ')}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Validate PROMPT_EXPERIMENTS and apply the experiments set through the API over it.
+ * Run at startup, so a malformed value stops the server instead of failing comparisons.
+ */
+export async function loadPromptExperiments(): Promise<ProviderRecord<PromptExperiment>> {
+  const loaded = parseExperiments(process.env.PROMPT_EXPERIMENTS);
+  const repository = await getComparisonRepository();
+  for (const [provider, experiment] of Object.entries(await repository.listPromptExperiments())) {
+    if (experiment) loaded[provider] = experiment;
+    else delete loaded[provider];
+  }
+  experiments = loaded;
+  return experiments;
+}
+
+export function getPromptExperiments(): ProviderRecord<PromptExperiment> {
+  experiments ??= parseExperiments(process.env.PROMPT_EXPERIMENTS);
+  return experiments;
+}
+
+/**
+ * Start, replace or (with undefined) stop the experiment for a provider. The change is
+ * stored, and outlasts a restart even where PROMPT_EXPERIMENTS says otherwise.
+ */
+export async function setPromptExperiment(
+  provider: ProviderName,
+  experiment: PromptExperiment | undefined
+): Promise<void> {
+  const { [provider]: _previous, ...others } = getPromptExperiments();
+  experiments = experiment ? { ...others, [provider]: experiment } : others;
+  const repository = await getComparisonRepository();
+  await repository.savePromptExperiment(provider, experiment ?? null);
+}
+
+/** Stable position in [0, 1) for a comparison, independent per provider */
+function bucket(key: string, provider: ProviderName): number {
+  return parseInt(createHash('sha256').update(`${provider}:${key}`).digest('hex').slice(0, 8), 16) / 0x100000000;
+}
+
+function pick(provider: ProviderName, experiment: PromptExperiment, key: string): string | undefined {
+  const arms = Object.entries(experiment).filter(([version, weight]) => weight > 0 && getPrompt(provider, version));
+  const total = arms.reduce((sum, [, weight]) => sum + weight, 0);
+  let threshold = bucket(key, provider) * total;
+  for (const [version, weight] of arms) {
+    threshold -= weight;
+    if (threshold < 0) return version;
+  }
+  return undefined;
+}
+
+/**
+ * The prompt version each provider with registered prompts should use for one
+ * comparison: the requested version, else its experiment arm, else the default.
+ * Arms are chosen by hashing `key`, so a comparison always lands in the same one.
+ */
+export function assignPromptVersions(key: string, requested: ProviderRecord<string> = {}): ProviderRecord<string> {
+  const assigned: ProviderRecord<string> = {};
+  const providers = new Set(listPrompts().map((prompt) => prompt.provider));
+  for (const provider of providers) {
+    const experiment = getPromptExperiments()[provider];
+    const version =
+      requested[provider] ?? (experiment && pick(provider, experiment, key)) ?? getDefaultPrompt(provider)?.version;
+    if (version) assigned[provider] = version;
+  }
+  return assigned;
+}
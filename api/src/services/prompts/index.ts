@@ -0,0 +1,22 @@
+import { registerPrompt } from './registry.js';
+import { ANTHROPIC_CLASSIFICATION_V1, ANTHROPIC_CLASSIFICATION_V2, OPENAI_CLASSIFICATION_V1 } from './classification.js';
+
+export {
+  registerPrompt,
+  unregisterPrompt,
+  getPrompt,
+  listPrompts,
+  getDefaultPrompt,
+  resolvePrompt,
+} from './registry.js';
+export {
+  assignPromptVersions,
+  getPromptExperiments,
+  loadPromptExperiments,
+  setPromptExperiment,
+} from './experiments.js';
+
+// Built-in prompts; the first version registered per provider is its default
+registerPrompt(ANTHROPIC_CLASSIFICATION_V1);
+registerPrompt(ANTHROPIC_CLASSIFICATION_V2);
+registerPrompt(OPENAI_CLASSIFICATION_V1);
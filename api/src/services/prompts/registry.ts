@@ -0,0 +1,40 @@
+import type { ProviderName } from '../../types/classification.js';
+import type { PromptVersion } from '../../types/prompts.js';
+
+// Per provider, in registration order; the first version registered is the default
+const prompts: Map<ProviderName, Map<string, PromptVersion>> = new Map();
+
+export function registerPrompt(prompt: PromptVersion): void {
+  const versions = prompts.get(prompt.provider) ?? new Map<string, PromptVersion>();
+  if (versions.has(prompt.version)) {
+    throw new Error(`Prompt ${prompt.provider}@${prompt.version} is already registered`);
+  }
+  versions.set(prompt.version, prompt);
+  prompts.set(prompt.provider, versions);
+}
+
+export function unregisterPrompt(provider: ProviderName, version: string): boolean {
+  return prompts.get(provider)?.delete(version) ?? false;
+}
+
+export function getPrompt(provider: ProviderName, version: string): PromptVersion | undefined {
+  return prompts.get(provider)?.get(version);
+}
+
+export function listPrompts(provider?: ProviderName): PromptVersion[] {
+  const providers = provider ? [prompts.get(provider)] : Array.from(prompts.values());
+  return providers.flatMap((versions) => Array.from(versions?.values() ?? []));
+}
+
+export function getDefaultPrompt(provider: ProviderName): PromptVersion | undefined {
+  return prompts.get(provider)?.values().next().value;
+}
+
+/** The requested version, or the provider's default; throws when neither exists */
+export function resolvePrompt(provider: ProviderName, version?: string): PromptVersion {
+  const prompt = version ? getPrompt(provider, version) : getDefaultPrompt(provider);
+  if (!prompt) {
+    throw new Error(version ? `Unknown prompt version ${provider}@${version}` : `No prompt registered for ${provider}`);
+  }
+  return prompt;
+}
@@ -0,0 +1,2 @@
+export { getProviderMode, providerApiKey, providerFetch, sdkTransport } from './recorder.js';
+export type { Fixture, ProviderMode, RecordedProvider } from './recorder.js';
@@ -0,0 +1,139 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+/**
+ * live   — call provider APIs (default)
+ * record — call them and save every response as a fixture
+ * replay — answer from fixtures only; an unrecorded request fails
+ */
+export type ProviderMode = 'live' | 'record' | 'replay';
+
+export type RecordedProvider = 'anthropic' | 'openai' | 'zonos';
+
+// The SDKs pass their own URL-like objects, so accept anything with an href
+type FetchInput = string | URL | { href: string };
+type Fetch = (input: FetchInput, init?: RequestInit) => Promise<Response>;
+
+export interface Fixture {
+  provider: RecordedProvider;
+  // Set when the response was captured from the provider's API in record mode
+  recordedAt?: string;
+  // Set on hand-written fixtures, whose responses no provider returned
+  synthetic?: true;
+  // Headers are never stored, so credentials stay out of fixtures
+  request: { method: string; url: string; body?: unknown };
+  response: { status: number; contentType?: string; body: unknown };
+}
+
+const DEFAULT_FIXTURES_DIR = './fixtures/providers';
+
+export function getProviderMode(): ProviderMode {
+  const mode = process.env.PROVIDER_MODE || 'live';
+  if (mode !== 'live' && mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Unsupported PROVIDER_MODE: ${mode}`);
+  }
+  return mode;
+}
+
+function fixturesDir(): string {
+  return process.env.PROVIDER_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+}
+
+function decode(text: string, contentType?: string | null): unknown {
+  if (!contentType?.includes('json')) return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Fixtures are keyed on method, path and body. The host is left out so a base URL
+ * override (proxy, gateway) replays the same fixtures.
+ */
+function fixturePath(provider: RecordedProvider, method: string, url: string, body?: string): string {
+  const { pathname, search } = new URL(url);
+  const hash = crypto
+    .createHash('sha256')
+    .update(`${method} ${pathname}${search}\n${body ?? ''}`)
+    .digest('hex')
+    .slice(0, 16);
+  return path.join(fixturesDir(), provider, `${hash}.json`);
+}
+
+function toUrl(input: FetchInput): string {
+  return typeof input === 'string' ? input : input.href;
+}
+
+/** Providers send the URL plus init; method and body are taken from init only */
+function describeRequest(input: FetchInput, init?: RequestInit) {
+  if (init?.body !== undefined && init.body !== null && typeof init.body !== 'string') {
+    throw new Error('Only string request bodies can be recorded');
+  }
+  return {
+    url: toUrl(input),
+    method: (init?.method || 'GET').toUpperCase(),
+    body: init?.body ?? undefined,
+  };
+}
+
+/**
+ * Drop-in fetch for one provider that honours PROVIDER_MODE. The mode is read on
+ * every call, so tests can switch it after modules load.
+ */
+export function providerFetch(provider: RecordedProvider): Fetch {
+  return async (input, init) => {
+    const mode = getProviderMode();
+    if (mode === 'live') return fetch(toUrl(input), init);
+
+    const { url, method, body } = describeRequest(input, init);
+    const file = fixturePath(provider, method, url, body);
+
+    if (mode === 'replay') {
+      if (!fs.existsSync(file)) {
+        throw new Error(`No ${provider} fixture for ${method} ${url} (expected ${file})`);
+      }
+      const fixture = JSON.parse(fs.readFileSync(file, 'utf-8')) as Fixture;
+      const { status, contentType, body: responseBody } = fixture.response;
+      return new Response(typeof responseBody === 'string' ? responseBody : JSON.stringify(responseBody), {
+        status,
+        headers: contentType ? { 'content-type': contentType } : undefined,
+      });
+    }
+
+    const response = await fetch(url, init);
+    const text = await response.clone().text();
+    const contentType = response.headers.get('content-type') ?? undefined;
+    const fixture: Fixture = {
+      provider,
+      recordedAt: new Date().toISOString(),
+      request: { method, url, body: body === undefined ? undefined : decode(body, 'json') },
+      response: { status: response.status, contentType, body: decode(text, contentType) },
+    };
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n');
+    console.log(`[Recorder] Saved ${provider} ${method} ${url} → ${file}`);
+    return response;
+  };
+}
+
+/**
+ * API key for a provider. Replays need no real key, so a placeholder stands in
+ * when none is configured.
+ */
+export function providerApiKey(envName: string): string | undefined {
+  return process.env[envName] || (getProviderMode() === 'replay' ? 'replay' : undefined);
+}
+
+/**
+ * Options for the Anthropic and OpenAI SDK clients; retries would only mask a missing fixture.
+ * The SDKs type `fetch` against node-fetch, but only use the parts of Response the global one has.
+ */
+export function sdkTransport<SdkFetch>(provider: RecordedProvider): { fetch: SdkFetch; maxRetries?: number } {
+  return {
+    fetch: providerFetch(provider) as unknown as SdkFetch,
+    ...(getProviderMode() === 'replay' && { maxRetries: 0 }),
+  };
+}
@@ -0,0 +1,47 @@
+import type { ComparisonRepository } from './repository.js';
+import { SqliteComparisonRepository } from './sqlite.js';
+import { PostgresComparisonRepository } from './postgres.js';
+import { MemoryComparisonRepository } from './memory.js';
+
+export type { ComparisonRepository } from './repository.js';
+
+const DEFAULT_SQLITE_PATH = './data/dutysnap.db';
+
+let repositoryPromise: Promise<ComparisonRepository> | null = null;
+
+/**
+ * Pick a repository from DATABASE_URL:
+ *   postgres://… or postgresql://…  → Postgres
+ *   sqlite:<path>                   → SQLite file at <path>
+ *   memory:                         → in-process Map (no persistence)
+ *   unset                           → SQLite at ./data/dutysnap.db
+ */
+export function createRepository(databaseUrl: string | undefined = process.env.DATABASE_URL): ComparisonRepository {
+  if (!databaseUrl) {
+    return new SqliteComparisonRepository(DEFAULT_SQLITE_PATH);
+  }
+  if (databaseUrl.startsWith('postgres://') || databaseUrl.startsWith('postgresql://')) {
+    return new PostgresComparisonRepository(databaseUrl);
+  }
+  if (databaseUrl.startsWith('sqlite:')) {
+    return new SqliteComparisonRepository(databaseUrl.slice('sqlite:'.length) || DEFAULT_SQLITE_PATH);
+  }
+  if (databaseUrl.startsWith('memory:')) {
+    return new MemoryComparisonRepository();
+  }
+  throw new Error(`Unsupported DATABASE_URL scheme: ${databaseUrl.split(':')[0]}`);
+}
+
+/**
+ * Shared repository instance, created and migrated on first use.
+ */
+export function getComparisonRepository(): Promise<ComparisonRepository> {
+  if (!repositoryPromise) {
+    const repository = createRepository();
+    repositoryPromise = repository.init().then(() => repository);
+    repositoryPromise.catch(() => {
+      repositoryPromise = null;
+    });
+  }
+  return repositoryPromise;
+}
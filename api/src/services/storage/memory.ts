@@ -0,0 +1,65 @@
+import type { ComparisonResult, ProviderName, ProviderRecord } from '../../types/classification.js';
+import type { BatchItem, BatchJob, BatchJobSummary } from '../../types/batch.js';
+import type { PromptExperiment } from '../../types/prompts.js';
+import type { ComparisonRepository } from './repository.js';
+
+// Non-persistent store, useful for local experiments. Data is lost on restart.
+export class MemoryComparisonRepository implements ComparisonRepository {
+  readonly driver = 'memory' as const;
+  private results: Map<string, ComparisonResult> = new Map();
+  private batchJobs: Map<string, BatchJobSummary> = new Map();
+  private batchItems: Map<string, Map<number, BatchItem>> = new Map();
+  private promptExperiments: Map<ProviderName, PromptExperiment | null> = new Map();
+
+  async init(): Promise<void> {}
+
+  async save(result: ComparisonResult): Promise<void> {
+    this.results.set(result.id, result);
+  }
+
+  async get(id: string): Promise<ComparisonResult | undefined> {
+    return this.results.get(id);
+  }
+
+  async list(): Promise<ComparisonResult[]> {
+    return Array.from(this.results.values()).sort(
+      (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    );
+  }
+
+  async saveBatchJob(job: BatchJobSummary): Promise<void> {
+    this.batchJobs.set(job.id, job);
+  }
+
+  async saveBatchItems(jobId: string, items: BatchItem[]): Promise<void> {
+    const stored = this.batchItems.get(jobId) ?? new Map<number, BatchItem>();
+    for (const item of items) stored.set(item.index, item);
+    this.batchItems.set(jobId, stored);
+  }
+
+  async getBatchJob(id: string): Promise<BatchJob | undefined> {
+    const job = this.batchJobs.get(id);
+    if (!job) return undefined;
+    const items = Array.from(this.batchItems.get(id)?.values() ?? []).sort((a, b) => a.index - b.index);
+    return { ...job, items };
+  }
+
+  async listBatchJobs(): Promise<BatchJobSummary[]> {
+    return Array.from(this.batchJobs.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async listPromptExperiments(): Promise<ProviderRecord<PromptExperiment | null>> {
+    return Object.fromEntries(this.promptExperiments);
+  }
+
+  async savePromptExperiment(provider: ProviderName, experiment: PromptExperiment | null): Promise<void> {
+    this.promptExperiments.set(provider, experiment);
+  }
+
+  async close(): Promise<void> {
+    this.results.clear();
+    this.batchJobs.clear();
+    this.batchItems.clear();
+    this.promptExperiments.clear();
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Schema migrations, applied in order and recorded in `schema_migrations`.
+ * Append new entries — never edit a migration that has already shipped.
+ * SQL must run unchanged on both SQLite and Postgres.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_comparison_results',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS comparison_results (
+        id TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        ship_to_country TEXT NOT NULL,
+        data TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_comparison_results_timestamp ON comparison_results (timestamp)',
+    ],
+  },
+  {
+    version: 2,
+    name: 'create_batch_jobs',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS batch_jobs (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_batch_jobs_created_at ON batch_jobs (created_at)',
+      `CREATE TABLE IF NOT EXISTS batch_items (
+        job_id TEXT NOT NULL,
+        item_index INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (job_id, item_index)
+      )`,
+    ],
+  },
+  {
+    version: 3,
+    name: 'create_prompt_experiments',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS prompt_experiments (
+        provider TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+      )`,
+    ],
+  },
+];
+
+export const CREATE_MIGRATIONS_TABLE = `CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at TEXT NOT NULL
+)`;
+
+export function pendingMigrations(applied: Set<number>): Migration[] {
+  return MIGRATIONS.filter((m) => !applied.has(m.version)).sort((a, b) => a.version - b.version);
+}
@@ -0,0 +1,131 @@
+import pg from 'pg';
+import type { ComparisonResult, ProviderName, ProviderRecord } from '../../types/classification.js';
+import type { BatchItem, BatchJob, BatchJobSummary } from '../../types/batch.js';
+import type { PromptExperiment } from '../../types/prompts.js';
+import type { ComparisonRepository } from './repository.js';
+import { CREATE_MIGRATIONS_TABLE, pendingMigrations } from './migrations.js';
+
+export class PostgresComparisonRepository implements ComparisonRepository {
+  readonly driver = 'postgres' as const;
+  private pool: pg.Pool;
+
+  constructor(connectionString: string) {
+    this.pool = new pg.Pool({ connectionString });
+  }
+
+  async init(): Promise<void> {
+    await this.pool.query(CREATE_MIGRATIONS_TABLE);
+    const { rows } = await this.pool.query<{ version: number }>('SELECT version FROM schema_migrations');
+    const applied = new Set(rows.map((r) => r.version));
+
+    for (const migration of pendingMigrations(applied)) {
+      const client = await this.pool.connect();
+      try {
+        await client.query('BEGIN');
+        for (const statement of migration.statements) {
+          await client.query(statement);
+        }
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, applied_at) VALUES ($1, $2, $3)',
+          [migration.version, migration.name, new Date().toISOString()]
+        );
+        await client.query('COMMIT');
+        console.log(`[Storage] Applied migration ${migration.version}_${migration.name}`);
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+    }
+  }
+
+  async save(result: ComparisonResult): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO comparison_results (id, timestamp, ship_to_country, data) VALUES ($1, $2, $3, $4)
+       ON CONFLICT (id) DO UPDATE SET timestamp = EXCLUDED.timestamp,
+         ship_to_country = EXCLUDED.ship_to_country, data = EXCLUDED.data`,
+      [result.id, result.timestamp, result.shipToCountry, JSON.stringify(result)]
+    );
+  }
+
+  async get(id: string): Promise<ComparisonResult | undefined> {
+    const { rows } = await this.pool.query<{ data: string }>(
+      'SELECT data FROM comparison_results WHERE id = $1',
+      [id]
+    );
+    return rows[0] ? (JSON.parse(rows[0].data) as ComparisonResult) : undefined;
+  }
+
+  async list(): Promise<ComparisonResult[]> {
+    const { rows } = await this.pool.query<{ data: string }>(
+      'SELECT data FROM comparison_results ORDER BY timestamp DESC'
+    );
+    return rows.map((r) => JSON.parse(r.data) as ComparisonResult);
+  }
+
+  async saveBatchJob(job: BatchJobSummary): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO batch_jobs (id, created_at, data) VALUES ($1, $2, $3)
+       ON CONFLICT (id) DO UPDATE SET data = EXCLUDED.data`,
+      [job.id, job.createdAt, JSON.stringify(job)]
+    );
+  }
+
+  async saveBatchItems(jobId: string, items: BatchItem[]): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (const item of items) {
+        await client.query(
+          `INSERT INTO batch_items (job_id, item_index, data) VALUES ($1, $2, $3)
+           ON CONFLICT (job_id, item_index) DO UPDATE SET data = EXCLUDED.data`,
+          [jobId, item.index, JSON.stringify(item)]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getBatchJob(id: string): Promise<BatchJob | undefined> {
+    const { rows } = await this.pool.query<{ data: string }>('SELECT data FROM batch_jobs WHERE id = $1', [id]);
+    if (!rows[0]) return undefined;
+    const items = await this.pool.query<{ data: string }>(
+      'SELECT data FROM batch_items WHERE job_id = $1 ORDER BY item_index',
+      [id]
+    );
+    return {
+      ...(JSON.parse(rows[0].data) as BatchJobSummary),
+      items: items.rows.map((r) => JSON.parse(r.data) as BatchItem),
+    };
+  }
+
+  async listBatchJobs(): Promise<BatchJobSummary[]> {
+    const { rows } = await this.pool.query<{ data: string }>('SELECT data FROM batch_jobs ORDER BY created_at DESC');
+    return rows.map((r) => JSON.parse(r.data) as BatchJobSummary);
+  }
+
+  async listPromptExperiments(): Promise<ProviderRecord<PromptExperiment | null>> {
+    const { rows } = await this.pool.query<{ provider: string; data: string }>(
+      'SELECT provider, data FROM prompt_experiments'
+    );
+    return Object.fromEntries(rows.map((r) => [r.provider, JSON.parse(r.data) as PromptExperiment | null]));
+  }
+
+  async savePromptExperiment(provider: ProviderName, experiment: PromptExperiment | null): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO prompt_experiments (provider, data) VALUES ($1, $2)
+       ON CONFLICT (provider) DO UPDATE SET data = EXCLUDED.data`,
+      [provider, JSON.stringify(experiment)]
+    );
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
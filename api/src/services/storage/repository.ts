@@ -0,0 +1,27 @@
+import type { ComparisonResult, ProviderName, ProviderRecord } from '../../types/classification.js';
+import type { BatchItem, BatchJob, BatchJobSummary } from '../../types/batch.js';
+import type { PromptExperiment } from '../../types/prompts.js';
+
+/**
+ * Persistence boundary for comparison results, batch jobs and prompt experiments.
+ * Implementations must apply pending migrations in `init()` before serving reads or writes.
+ */
+export interface ComparisonRepository {
+  readonly driver: 'sqlite' | 'postgres' | 'memory';
+  init(): Promise<void>;
+  save(result: ComparisonResult): Promise<void>;
+  get(id: string): Promise<ComparisonResult | undefined>;
+  /** All results, newest first */
+  list(): Promise<ComparisonResult[]>;
+  saveBatchJob(job: BatchJobSummary): Promise<void>;
+  /** Insert or replace these items of a job, keyed on their index */
+  saveBatchItems(jobId: string, items: BatchItem[]): Promise<void>;
+  /** A job with its items in row order */
+  getBatchJob(id: string): Promise<BatchJob | undefined>;
+  /** All jobs without their items, newest first */
+  listBatchJobs(): Promise<BatchJobSummary[]>;
+  /** Experiments set through the API, per provider; null where one was stopped */
+  listPromptExperiments(): Promise<ProviderRecord<PromptExperiment | null>>;
+  savePromptExperiment(provider: ProviderName, experiment: PromptExperiment | null): Promise<void>;
+  close(): Promise<void>;
+}
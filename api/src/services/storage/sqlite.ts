@@ -0,0 +1,120 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import type { ComparisonResult, ProviderName, ProviderRecord } from '../../types/classification.js';
+import type { BatchItem, BatchJob, BatchJobSummary } from '../../types/batch.js';
+import type { PromptExperiment } from '../../types/prompts.js';
+import type { ComparisonRepository } from './repository.js';
+import { CREATE_MIGRATIONS_TABLE, pendingMigrations } from './migrations.js';
+
+export class SqliteComparisonRepository implements ComparisonRepository {
+  readonly driver = 'sqlite' as const;
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+  }
+
+  async init(): Promise<void> {
+    this.db.exec(CREATE_MIGRATIONS_TABLE);
+    const rows = this.db.prepare('SELECT version FROM schema_migrations').all() as Array<{ version: number }>;
+    const applied = new Set(rows.map((r) => r.version));
+
+    for (const migration of pendingMigrations(applied)) {
+      const apply = this.db.transaction(() => {
+        for (const statement of migration.statements) {
+          this.db.exec(statement);
+        }
+        this.db
+          .prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+          .run(migration.version, migration.name, new Date().toISOString());
+      });
+      apply();
+      console.log(`[Storage] Applied migration ${migration.version}_${migration.name}`);
+    }
+  }
+
+  async save(result: ComparisonResult): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO comparison_results (id, timestamp, ship_to_country, data) VALUES (?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET timestamp = excluded.timestamp,
+           ship_to_country = excluded.ship_to_country, data = excluded.data`
+      )
+      .run(result.id, result.timestamp, result.shipToCountry, JSON.stringify(result));
+  }
+
+  async get(id: string): Promise<ComparisonResult | undefined> {
+    const row = this.db.prepare('SELECT data FROM comparison_results WHERE id = ?').get(id) as
+      | { data: string }
+      | undefined;
+    return row ? (JSON.parse(row.data) as ComparisonResult) : undefined;
+  }
+
+  async list(): Promise<ComparisonResult[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM comparison_results ORDER BY timestamp DESC')
+      .all() as Array<{ data: string }>;
+    return rows.map((r) => JSON.parse(r.data) as ComparisonResult);
+  }
+
+  async saveBatchJob(job: BatchJobSummary): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO batch_jobs (id, created_at, data) VALUES (?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET data = excluded.data`
+      )
+      .run(job.id, job.createdAt, JSON.stringify(job));
+  }
+
+  async saveBatchItems(jobId: string, items: BatchItem[]): Promise<void> {
+    const statement = this.db.prepare(
+      `INSERT INTO batch_items (job_id, item_index, data) VALUES (?, ?, ?)
+       ON CONFLICT (job_id, item_index) DO UPDATE SET data = excluded.data`
+    );
+    this.db.transaction(() => {
+      for (const item of items) {
+        statement.run(jobId, item.index, JSON.stringify(item));
+      }
+    })();
+  }
+
+  async getBatchJob(id: string): Promise<BatchJob | undefined> {
+    const row = this.db.prepare('SELECT data FROM batch_jobs WHERE id = ?').get(id) as { data: string } | undefined;
+    if (!row) return undefined;
+    const items = this.db
+      .prepare('SELECT data FROM batch_items WHERE job_id = ? ORDER BY item_index')
+      .all(id) as Array<{ data: string }>;
+    return { ...(JSON.parse(row.data) as BatchJobSummary), items: items.map((r) => JSON.parse(r.data) as BatchItem) };
+  }
+
+  async listBatchJobs(): Promise<BatchJobSummary[]> {
+    const rows = this.db.prepare('SELECT data FROM batch_jobs ORDER BY created_at DESC').all() as Array<{ data: string }>;
+    return rows.map((r) => JSON.parse(r.data) as BatchJobSummary);
+  }
+
+  async listPromptExperiments(): Promise<ProviderRecord<PromptExperiment | null>> {
+    const rows = this.db.prepare('SELECT provider, data FROM prompt_experiments').all() as Array<{
+      provider: string;
+      data: string;
+    }>;
+    return Object.fromEntries(rows.map((r) => [r.provider, JSON.parse(r.data) as PromptExperiment | null]));
+  }
+
+  async savePromptExperiment(provider: ProviderName, experiment: PromptExperiment | null): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO prompt_experiments (provider, data) VALUES (?, ?)
+         ON CONFLICT (provider) DO UPDATE SET data = excluded.data`
+      )
+      .run(provider, JSON.stringify(experiment));
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
@@ -0,0 +1,2 @@
+export { getTaxRateTable, getCountryTaxRates, resolveTaxRate, formatTaxLabel } from './taxRates.js';
+export type { CountryTaxRates, ResolvedTaxRate, TaxRateTable } from './taxRates.js';
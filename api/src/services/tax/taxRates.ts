@@ -0,0 +1,72 @@
+import taxRateData from '../../data/tax-rates.json';
+
+export interface CountryTaxRates {
+  country: string;
+  name: string; // VAT, GST, IVA, …
+  standard: number; // Percentage
+  reduced: Record<string, number>; // Category → percentage
+  note?: string;
+}
+
+export interface TaxRateTable {
+  version: string;
+  validFrom: string;
+  categories: Record<string, { description: string; hsPrefixes: string[] }>;
+  countries: Record<string, CountryTaxRates>;
+}
+
+export interface ResolvedTaxRate {
+  countryCode: string;
+  name: string;
+  rate: number;
+  kind: 'standard' | 'reduced';
+  category?: string;
+  version: string;
+}
+
+const TABLE: TaxRateTable = taxRateData;
+
+export function getTaxRateTable(): TaxRateTable {
+  return TABLE;
+}
+
+export function getCountryTaxRates(countryCode: string): CountryTaxRates | undefined {
+  return TABLE.countries[countryCode.toUpperCase()];
+}
+
+/**
+ * VAT/GST rate for goods of `hsCode` imported into (or sold within) a country.
+ * A reduced rate applies when the destination has one for the category whose
+ * HS prefix matches most specifically; otherwise the standard rate.
+ */
+export function resolveTaxRate(countryCode: string, hsCode?: string): ResolvedTaxRate | undefined {
+  const country = getCountryTaxRates(countryCode);
+  if (!country) return undefined;
+
+  const standard: ResolvedTaxRate = {
+    countryCode: countryCode.toUpperCase(),
+    name: country.name,
+    rate: country.standard,
+    kind: 'standard',
+    version: TABLE.version,
+  };
+  if (!hsCode) return standard;
+
+  const digits = hsCode.replace(/\D/g, '');
+  let best: { category: string; length: number } | undefined;
+  for (const category of Object.keys(country.reduced)) {
+    for (const prefix of TABLE.categories[category]?.hsPrefixes || []) {
+      if (digits.startsWith(prefix) && (!best || prefix.length > best.length)) {
+        best = { category, length: prefix.length };
+      }
+    }
+  }
+
+  if (!best) return standard;
+  return { ...standard, rate: country.reduced[best.category], kind: 'reduced', category: best.category };
+}
+
+/** Breakdown label, e.g. "VAT" or "VAT (reduced: books)" */
+export function formatTaxLabel(tax: ResolvedTaxRate): string {
+  return tax.kind === 'reduced' ? `${tax.name} (reduced: ${tax.category})` : tax.name;
+}
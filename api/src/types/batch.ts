@@ -0,0 +1,58 @@
+import type { DutyEngine, ProviderName, ProviderRecord } from './classification.js';
+
+export type BatchFormat = 'csv' | 'jsonl';
+
+export type BatchJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type BatchItemStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/** One product from an uploaded catalog */
+export interface BatchRow {
+  sku?: string; // Caller's own identifier, echoed in the results
+  productName?: string;
+  productDescription?: string;
+  imageUrl?: string;
+  productValue?: number;
+  currency?: string;
+  originCountry?: string;
+  shipToCountry?: string;
+}
+
+/** Applied to every row; row values take precedence where both are set */
+export interface BatchOptions {
+  providers?: ProviderName[];
+  dutyEngine: DutyEngine;
+  currency: string;
+  originCountry?: string;
+  shipToCountry: string;
+  displayCurrency?: string;
+  concurrency: number;
+}
+
+export interface BatchItem {
+  index: number;
+  row: BatchRow;
+  status: BatchItemStatus;
+  comparisonId?: string;
+  error?: string;
+  providerErrors?: ProviderRecord<string>; // Set when every provider failed to classify the row
+}
+
+export interface BatchJob {
+  id: string;
+  status: BatchJobStatus;
+  format: BatchFormat;
+  options: BatchOptions;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  progress: {
+    total: number;
+    completed: number;
+    failed: number;
+  };
+  items: BatchItem[];
+  error?: string;
+}
+
+/** A job without its items, as listed */
+export type BatchJobSummary = Omit<BatchJob, 'items'>;
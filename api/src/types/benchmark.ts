@@ -0,0 +1,67 @@
+import type { ProviderName, ProviderRecord } from './classification.js';
+import type { HsMatchLevel } from './hs.js';
+import type { Calibration } from './calibration.js';
+
+export type { Calibration, CalibrationBin } from './calibration.js';
+
+export interface GoldenCase {
+  id: string;
+  productName?: string;
+  productDescription?: string;
+  imageUrl?: string;
+  originCountry?: string;
+  shipToCountry: string;
+  expectedHsCode: string; // Normalized digits; 6 to 10 long
+  source?: string; // Where the expected code comes from (ruling, broker, WCO opinion)
+}
+
+export interface GoldenDataset {
+  name: string;
+  version: string;
+  nomenclature: string; // e.g. HS 2022
+  cases: GoldenCase[];
+}
+
+export interface BenchmarkCaseResult {
+  hsCode: string;
+  confidence: number;
+  latencyMs: number;
+  match?: HsMatchLevel; // Most specific level matching the expected code
+  costUsd?: number;
+  error?: string;
+}
+
+export interface ProviderBenchmark {
+  cases: number;
+  errors: number;
+  accuracy: Partial<Record<HsMatchLevel, number>>;
+  calibration: Calibration;
+  latencyMs: { mean: number; p50: number; p95: number; max: number };
+  /** Undefined when no pricing is known for the provider or its model */
+  costUsd?: { total: number; perCase: number };
+}
+
+export interface BenchmarkReport {
+  dataset: { name: string; version: string; cases: number };
+  startedAt: string;
+  completedAt: string;
+  providers: ProviderRecord<ProviderBenchmark>;
+  cases: Array<{
+    id: string;
+    expectedHsCode: string;
+    results: ProviderRecord<BenchmarkCaseResult>;
+  }>;
+}
+
+export interface BenchmarkDiff {
+  baseline: { startedAt: string; datasetVersion: string };
+  providers: ProviderRecord<{
+    accuracy: Partial<Record<HsMatchLevel, number>>; // Change in rate, current minus baseline
+    expectedCalibrationError?: number;
+    meanLatencyMs: number;
+    costPerCaseUsd?: number;
+  }>;
+  /** Cases whose HS6 verdict flipped between runs */
+  changedCases: Array<{ id: string; provider: ProviderName; before?: HsMatchLevel; after?: HsMatchLevel }>;
+  regressions: string[];
+}
@@ -0,0 +1,40 @@
+import type { ProviderName } from './classification.js';
+
+export interface CalibrationBin {
+  range: [number, number];
+  count: number;
+  meanConfidence: number;
+  accuracy: number;
+}
+
+/** Confidence against HS6 correctness */
+export interface Calibration {
+  bins: CalibrationBin[];
+  expectedCalibrationError: number;
+  brierScore: number;
+}
+
+/** One labelled outcome: what the provider claimed, and whether it was right at HS6 */
+export interface CalibrationSample {
+  confidence: number;
+  correct: boolean;
+}
+
+/**
+ * Monotone map from raw to calibrated confidence, fitted by isotonic regression.
+ * Each point is a pooled block of samples; values between points are interpolated.
+ */
+export interface ReliabilityCurve {
+  provider: ProviderName;
+  samples: number;
+  points: Array<{ confidence: number; probability: number }>;
+}
+
+export interface ProviderCalibration {
+  samples: number;
+  /** Raw confidence against labelled outcomes */
+  raw: Calibration;
+  /** Calibrated confidence, each label scored by a curve fitted without it (5-fold cross-validation) */
+  calibrated?: Calibration;
+  curve?: ReliabilityCurve['points'];
+}
@@ -1,3 +1,5 @@
+import type { ModelOverride, ModelRole } from './models.js';
+
 export interface ClassificationInput {
   imageBase64?: string;
   imageUrl?: string;
@@ -5,24 +7,160 @@ export interface ClassificationInput {
   productDescription?: string;
   originCountry?: string;
   shipToCountry: string; // Default: FR for France
+  promptVersions?: ProviderRecord<string>; // Assigned per comparison; providers without prompts ignore it
+  models?: Partial<Record<ModelRole, ModelOverride>>; // Resolved per comparison; unset roles use their configured model
+}
+
+/** Name a classifier is registered under (e.g. 'anthropic', 'openai', 'zonos') */
+export type ProviderName = string;
+
+/** Provider-keyed map; every registered provider may appear as a key */
+export type ProviderRecord<T> = Record<ProviderName, T>;
+
+/** Symmetric provider × provider matrix: matrix[a][b] === matrix[b][a] */
+export type PairwiseMatrix<T> = Record<ProviderName, Record<ProviderName, T>>;
+
+export interface ClassifierProvider {
+  name: ProviderName;
+  displayName: string;
+  /** Reference provider other classifiers are scored against (at most one is registered) */
+  isReference?: boolean;
+  /** False when the provider needs a URL or text and cannot read a base64 image */
+  acceptsImageBase64: boolean;
+  /** Deadline for one classification; defaults to CLASSIFIER_TIMEOUT_MS (30s) */
+  timeoutMs?: number;
+  /** Vote weight in consensus mode; defaults to 1 */
+  consensusWeight?: number;
+  classify(input: ClassificationInput): Promise<ClassificationResult>;
 }
 
 export interface ClassificationResult {
-  provider: 'anthropic' | 'openai' | 'zonos';
+  provider: ProviderName;
   hsCode: string;
   hsCode6: string; // First 6 digits (universal)
   hsCode8?: string; // 8 digits (EU specific)
   description: string;
-  confidence: number; // 0-1
+  confidence: number; // 0-1, as the provider reported it
+  calibratedConfidence?: number; // Probability of HS6 being right, from labelled history; absent until enough labels
+  promptVersion?: string; // System prompt version, for providers with prompts in the registry
+  model?: string; // Model requested, for LLM providers; usage.model is the exact version that answered
   reasoning?: string;
   estimatedValueEUR?: number; // AI-estimated retail value in EUR
+  productIdentified?: string; // What the model saw in the image, used to enrich text-only providers
+  alternatives?: HsCandidate[]; // Other plausible codes, most likely first; never repeats hsCode
   rawResponse?: unknown;
+  usage?: TokenUsage; // LLM providers only
   latencyMs: number;
   error?: string;
+  outputError?: OutputError; // Why `error` is set, when the model's output was unusable
+}
+
+/** A code a provider considered besides the one it chose */
+export interface HsCandidate {
+  hsCode: string;
+  hsCode6: string;
+  hsCode8?: string;
+  description: string;
+  confidence: number; // 0-1
+  reasoning?: string;
+}
+
+/** Model output that still failed to parse or validate after every repair attempt */
+export interface OutputError {
+  type: 'invalid_json' | 'schema_mismatch' | 'no_output';
+  attempts: number;
+  issues: string[]; // From the last attempt
+  output?: string; // Last raw output, truncated
+}
+
+export interface TokenUsage {
+  model: string; // As reported by the API, e.g. gpt-4o-2024-08-06
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** Where a duty calculation comes from: Zonos landed cost API or the bundled tariff schedules */
+export type DutyEngine = 'zonos' | 'local';
+
+export interface FxConversion {
+  from: string;
+  to: string;
+  originalAmount: number;
+  amount: number;
+  rate: number; // Units of `to` per 1 unit of `from`
+  rateDate: string;
+  source: string;
+}
+
+/** Duty calculation totals re-expressed in the client's display currency */
+export interface DisplayAmounts {
+  currency: string;
+  productValue: number;
+  duties: number;
+  vat: number;
+  totalLandedCost: number;
+  rate: number;
+  rateDate: string;
+}
+
+export type BreakdownKind = 'product' | 'freight' | 'valuation' | 'duty' | 'tax' | 'fee';
+
+/** Basis a destination computes the dutiable value on */
+export type ValuationMethod = 'CIF' | 'FOB';
+
+export const INCOTERMS = ['EXW', 'FCA', 'FAS', 'FOB', 'CFR', 'CIF', 'CPT', 'CIP', 'DAP', 'DPU', 'DDP'] as const;
+export type Incoterm = (typeof INCOTERMS)[number];
+
+/** International transport costs of a consignment, in the product value's currency */
+export interface FreightCosts {
+  shippingCost?: number;
+  insuranceCost?: number;
+  incoterm?: Incoterm;
+}
+
+/** Options every duty engine accepts besides the goods themselves */
+export interface DutyEngineOptions extends FreightCosts {
+  claimPreference?: boolean; // Claim a free-trade-agreement rate when one applies (default true)
+}
+
+/** MFN vs preferential duty under the trade agreement covering an origin/destination pair */
+export interface PreferenceAssessment {
+  agreement: string;
+  agreementName: string;
+  mfnRate?: number; // Percentage; unknown when the engine has no schedule for the destination
+  preferentialRate?: number;
+  proofOfOrigin: string;
+  claimed: boolean;
+  applied: boolean; // Claimed and lower than MFN
+  note?: string;
+}
+
+export interface CustomsValuation {
+  method: ValuationMethod;
+  productValue: number;
+  shippingCost: number;
+  insuranceCost: number;
+  dutiableValue: number;
+  incoterm?: Incoterm;
+  reason: string;
+}
+
+export interface DeMinimisThreshold {
+  threshold: number; // 0 when the destination grants no relief
+  currency: string;
+  exempt: boolean;
+  reason: string;
+}
+
+export interface DeMinimisAssessment {
+  regime: string;
+  duty: DeMinimisThreshold;
+  tax: DeMinimisThreshold;
 }
 
 export interface DutyCalculation {
-  provider: 'anthropic' | 'openai' | 'zonos';
+  provider: ProviderName;
+  engine?: DutyEngine;
   hsCode: string;
   duties: {
     amount: number;
@@ -36,10 +174,22 @@ export interface DutyCalculation {
   totalLandedCost: number;
   breakdown: Array<{
     type: string;
+    kind?: BreakdownKind;
     amount: number;
     rate?: string;
+    reason?: string; // Why a line is zero or adjusted (e.g. de minimis relief)
   }>;
   currency: string;
+  fx?: FxConversion; // Conversion of the product value into `currency`, when one was needed
+  display?: DisplayAmounts;
+  deMinimis?: DeMinimisAssessment;
+  valuation?: CustomsValuation;
+  preference?: PreferenceAssessment;
+  tariffSchedule?: {
+    id: string;
+    version: string;
+    matchedCode?: string; // Schedule entry the HS code resolved to
+  };
   latencyMs: number;
   error?: string;
 }
@@ -51,44 +201,107 @@ export interface ComparisonResult {
   productValue?: number;
   isEstimatedValue?: boolean; // true if value was AI-estimated rather than user-provided
   shipToCountry: string;
-  currency?: string;
-
-  classifications: {
-    anthropic?: ClassificationResult;
-    openai?: ClassificationResult;
-    zonos?: ClassificationResult;
+  currency?: string; // Currency of productValue
+  customsValue?: {
+    amount: number;
+    currency: string; // Destination's customs valuation currency
+    fx?: FxConversion;
   };
+  displayCurrency?: string;
+  dutyEngine?: DutyEngine; // Engine duties are calculated with, so a chosen alternative is priced the same way
 
-  dutyCalculations?: {
-    anthropic?: DutyCalculation;
-    openai?: DutyCalculation;
-    zonos?: DutyCalculation;
-  };
+  classifications: ProviderRecord<ClassificationResult>;
+
+  dutyCalculations?: ProviderRecord<DutyCalculation>;
 
   analysis: {
-    hsCodeMatch: {
-      anthropicVsZonos: boolean;
-      openaiVsZonos: boolean;
-      anthropicVsOpenai: boolean;
-      hs6Match: {
-        anthropicVsZonos: boolean;
-        openaiVsZonos: boolean;
-        anthropicVsOpenai: boolean;
-      };
-    };
-    confidenceScores: {
-      anthropic?: number;
-      openai?: number;
-      zonos?: number;
-    };
-    dutyDifference?: {
-      anthropicVsZonos?: number;
-      openaiVsZonos?: number;
-      anthropicVsOpenai?: number;
-    };
-    winner?: 'anthropic' | 'openai' | 'tie';
+    referenceProvider?: ProviderName;
+    hsCodeMatch: PairwiseMatrix<boolean>;
+    hs6Match: PairwiseMatrix<boolean>;
+    confidenceScores: ProviderRecord<number>;
+    dutyDifference?: PairwiseMatrix<number>;
+    winner?: ProviderName | 'tie';
     notes?: string;
   };
+
+  groundTruth?: GroundTruthLabel;
+  consensus?: ConsensusClassification; // Only when the request asked for consensus
+  clarification?: ClarificationSession;
+}
+
+export interface ClarifyingQuestion {
+  id: string; // Unique within the session, e.g. r1q2
+  question: string;
+  options?: string[]; // Offered as choices; free-text answers are accepted too
+  reason?: string;
+}
+
+export interface ClarificationAnswer {
+  questionId: string;
+  answer: string;
+  source?: 'tap' | 'voice' | 'text';
+}
+
+/** One classifier turn: what it concluded, what it asked, and what the user answered */
+export interface ClarificationRound {
+  classification: Omit<ClassificationResult, 'rawResponse'>;
+  questions: ClarifyingQuestion[];
+  answers?: ClarificationAnswer[];
+}
+
+/**
+ * A multi-turn classification of a stored comparison's product. Each round's answers
+ * become facts for the next, until the classifier has no questions or the round limit.
+ */
+export interface ClarificationSession {
+  provider: ProviderName;
+  status: 'awaiting_answers' | 'complete' | 'failed';
+  rounds: ClarificationRound[];
+  startedAt: string;
+  updatedAt: string;
+}
+
+/**
+ * vote       — weighted vote at HS6, then HS8 among the HS6 winners
+ * adjudicate — vote, then ask an LLM to decide between the candidates when providers disagree
+ */
+export const CONSENSUS_MODES = ['vote', 'adjudicate'] as const;
+export type ConsensusMode = (typeof CONSENSUS_MODES)[number];
+
+/** One recommended classification combined from every provider that answered */
+export interface ConsensusClassification {
+  mode: ConsensusMode;
+  method: 'unanimous' | 'vote' | 'adjudicated';
+  hsCode: string;
+  hsCode6: string;
+  hsCode8?: string;
+  description: string;
+  agreement: number; // 0-1: vote weight behind hsCode6, out of every usable provider's
+  hs8Agreement?: number; // Same at HS8, among the HS6 supporters with 8+ digit codes
+  supporters: ProviderName[]; // Providers whose code matches at HS6
+  votes: Record<string, number>; // HS6 → vote weight
+  tieBroken?: boolean; // Decided on confidence after an equal vote
+  adjudication?: {
+    model?: string;
+    hsCode?: string;
+    confidence?: number;
+    reasoning?: string;
+    usage?: TokenUsage;
+    error?: string; // The vote result stands when adjudication fails
+  };
+}
+
+export const GROUND_TRUTH_SOURCES = ['broker', 'binding_ruling', 'customs_declaration', 'manual'] as const;
+export type GroundTruthSource = (typeof GROUND_TRUTH_SOURCES)[number];
+
+/** Verified classification attached to a stored comparison after the fact */
+export interface GroundTruthLabel {
+  hsCode: string; // Normalized digits
+  source: GroundTruthSource;
+  reference?: string; // e.g. EU BTI or CBP ruling number, broker entry number
+  verifiedBy?: string;
+  note?: string;
+  labelledAt: string;
 }
 
 export interface ComparisonRequest {
@@ -100,6 +313,30 @@ export interface ComparisonRequest {
   shipToCountry?: string;
   productValue?: number;
   currency?: string;
-  providers?: Array<'anthropic' | 'openai' | 'zonos'>;
+  providers?: ProviderName[];
   calculateDuty?: boolean;
+  dutyEngine?: DutyEngine;
+  displayCurrency?: string;
+  shippingCost?: number;
+  insuranceCost?: number;
+  incoterm?: Incoterm;
+  claimPreference?: boolean;
+  consensus?: ConsensusMode;
+  promptVersions?: ProviderRecord<string>; // Overrides any running prompt experiment
+  models?: Partial<Record<ModelRole, ModelOverride>>; // Overrides the configured model settings
 }
+
+/** Emitted by a streaming comparison as each stage completes, before the final result */
+export type ComparisonProgressEvent =
+  | { type: 'started'; id: string; providers: ProviderName[] }
+  | { type: 'classification'; provider: ProviderName; result: Omit<ClassificationResult, 'rawResponse'> }
+  | {
+      type: 'value';
+      productValue?: number;
+      currency: string;
+      isEstimatedValue: boolean;
+      customsValue?: ComparisonResult['customsValue'];
+    }
+  | { type: 'duty'; provider: ProviderName; calculation: DutyCalculation }
+  | { type: 'consensus'; consensus: ConsensusClassification }
+  | { type: 'result'; result: ComparisonResult };
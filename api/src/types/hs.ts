@@ -0,0 +1,49 @@
+/** Nomenclature levels derivable from one code; national levels only when the code is that long */
+export interface HsLevels {
+  hs2: string; // Chapter
+  hs4: string; // Heading
+  hs6: string; // Subheading (international)
+  cn8?: string; // EU Combined Nomenclature
+  hts10?: string; // US HTS / TARIC statistical line
+}
+
+/** Depths two codes are compared at, most specific first */
+export const HS_MATCH_LEVELS = ['exact', 'hs8', 'hs6', 'hs4', 'hs2'] as const;
+export type HsMatchLevel = (typeof HS_MATCH_LEVELS)[number];
+
+export type HsVerificationLevel = 'chapter' | 'heading' | 'subheading';
+
+export interface HsValidation {
+  input: string;
+  code: string; // Normalized digits
+  valid: boolean;
+  levels?: HsLevels;
+  verifiedTo?: HsVerificationLevel; // Deepest level checked against the bundled nomenclature
+  chapter?: { code: string; title: string };
+  heading?: { code: string; description?: string };
+  subheading?: { code: string; description: string };
+  errors: string[];
+  unverified?: string; // Why the code could not be checked below verifiedTo; the code is still valid
+}
+
+export type HsNodeLevel = 'section' | 'chapter' | 'heading' | 'subheading';
+
+export interface HsNode {
+  code: string; // Roman numeral for sections, digits otherwise
+  formatted: string;
+  level: HsNodeLevel;
+  description: string;
+  hasChildren: boolean; // Whether the bundled nomenclature lists anything below this node
+}
+
+/** A code with the nomenclature texts above it */
+export interface HsLookup {
+  code: string;
+  formatted: string;
+  verifiedTo: HsVerificationLevel;
+  section?: HsNode;
+  chapter: HsNode;
+  heading?: HsNode; // Absent when the heading exists but its text is not bundled
+  subheading?: HsNode;
+  national?: string; // Digits beyond HS6 (CN8, HTS10 …), not described by the HS nomenclature
+}
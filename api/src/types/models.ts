@@ -0,0 +1,20 @@
+import type { PromptVersionStats } from './prompts.js';
+
+/** What a model is configured for: an LLM classifier, consensus adjudication or voice parsing */
+export const MODEL_ROLES = ['anthropic', 'openai', 'adjudicator', 'voice'] as const;
+export type ModelRole = (typeof MODEL_ROLES)[number];
+
+/** Which model an LLM call uses, and how */
+export interface ModelSettings {
+  model: string; // e.g. claude-sonnet-4-20250514, gpt-4o
+  temperature?: number; // The vendor's default when unset
+  maxTokens: number;
+}
+
+/** Per-comparison changes to a role's configured settings */
+export type ModelOverride = Partial<ModelSettings>;
+
+export interface ModelStats extends PromptVersionStats {
+  /** Mean latency of classifications that produced a code */
+  avgLatencyMs: number;
+}
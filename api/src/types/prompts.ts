@@ -0,0 +1,23 @@
+import type { ProviderName } from './classification.js';
+
+/** A named system prompt for one provider's classifier */
+export interface PromptVersion {
+  provider: ProviderName;
+  version: string; // e.g. v1, v2-gri-first
+  system: string;
+  description?: string;
+}
+
+/** Share of comparisons given each version, as relative weights (e.g. { v1: 80, v2: 20 }) */
+export type PromptExperiment = Record<string, number>;
+
+export interface PromptVersionStats {
+  classifications: number;
+  errors: number;
+  avgConfidence: number;
+  /** Share agreeing with the reference provider at HS6, where it answered */
+  hs6MatchRate?: number;
+  /** Share right at HS6 on labelled comparisons */
+  labelled: number;
+  hs6Accuracy?: number;
+}
@@ -0,0 +1,60 @@
+import type {
+  CustomsValuation,
+  DeMinimisAssessment,
+  DisplayAmounts,
+  DutyCalculation,
+  DutyEngine,
+  FxConversion,
+  PreferenceAssessment,
+} from './classification.js';
+
+export interface ShipmentLineItem {
+  hsCode: string;
+  description?: string;
+  quantity: number;
+  unitValue: number;
+  originCountry?: string; // Defaults to the shipment origin
+  weightKg?: number; // Per unit
+}
+
+export interface ShipmentLineDuty {
+  index: number;
+  hsCode: string;
+  description?: string;
+  quantity: number;
+  unitValue: number;
+  lineValue: number;
+  customsValue: number; // Line value plus its share of dutiable freight and insurance
+  originCountry: string;
+  weightKg?: number;
+  duties: { amount: number; rate: string };
+  taxes: { amount: number; rate: string };
+  fees: number;
+  tariffMatch?: string; // Tariff schedule entry the line resolved to (local engine)
+  preference?: PreferenceAssessment;
+}
+
+export interface ShipmentDutyCalculation {
+  engine: DutyEngine;
+  originCountry: string;
+  shipToCountry: string;
+  currency: string;
+  dutyType: string; // customs_duty | intra_eu | domestic | de_minimis
+  lines: ShipmentLineDuty[];
+  totals: {
+    productValue: number;
+    customsValue: number;
+    duties: number;
+    taxes: number;
+    fees: number;
+    totalLandedCost: number;
+  };
+  breakdown: DutyCalculation['breakdown'];
+  fx?: FxConversion; // Conversion applied to every unit value, when one was needed
+  display?: DisplayAmounts;
+  deMinimis?: DeMinimisAssessment;
+  valuation?: CustomsValuation; // Set when shipping, insurance or an incoterm was supplied
+  tariffSchedule?: DutyCalculation['tariffSchedule'];
+  latencyMs: number;
+  error?: string;
+}
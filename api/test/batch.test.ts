@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { createBatchJob, getBatchJob, listBatchJobs, resumeBatchJobs } from '../src/services/batch/index.js';
+import { getComparisonResult } from '../src/services/comparison.js';
+import { getComparisonRepository } from '../src/services/storage/index.js';
+import type { BatchJob, BatchOptions } from '../src/types/batch.js';
+
+// The description the recorded t-shirt classification was made with
+const shirt = "Men's short-sleeve knitted cotton t-shirt";
+
+const options: BatchOptions = {
+  providers: ['zonos'],
+  dutyEngine: 'local',
+  currency: 'EUR',
+  originCountry: 'CN',
+  shipToCountry: 'FR',
+  concurrency: 2,
+};
+
+async function finished(id: string): Promise<BatchJob> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const job = await getBatchJob(id);
+    if (job && (job.status === 'completed' || job.status === 'failed')) return job;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error(`Batch job ${id} did not finish`);
+}
+
+describe('batch jobs (replayed providers)', () => {
+  it('stores the job and each row as it runs', async () => {
+    const created = await createBatchJob(
+      [
+        { sku: 'TS-1', productName: '100% cotton t-shirt', productDescription: shirt, productValue: 20 },
+        { sku: 'TS-2', productName: 'Unrecorded product', productValue: 20 },
+      ],
+      'csv',
+      options
+    );
+    expect((await listBatchJobs()).map((job) => job.id)).toContain(created.id);
+
+    const job = await finished(created.id);
+    expect(job).toMatchObject({ status: 'completed', progress: { total: 2, completed: 1, failed: 1 } });
+    expect(job.items.map((item) => [item.row.sku, item.status])).toEqual([
+      ['TS-1', 'completed'],
+      ['TS-2', 'failed'],
+    ]);
+
+    const comparison = await getComparisonResult(job.items[0].comparisonId!);
+    expect(comparison?.classifications.zonos).toMatchObject({ hsCode: '6109100010' });
+    expect(comparison?.classifications.zonos.error).toBeUndefined();
+  });
+
+  it('fails a row every provider failed to classify, keeping their errors', async () => {
+    const job = await finished((await createBatchJob([{ productName: 'Unrecorded product' }], 'jsonl', options)).id);
+
+    expect(job.progress).toEqual({ total: 1, completed: 0, failed: 1 });
+    expect(job.items[0]).toMatchObject({
+      status: 'failed',
+      error: 'Every provider failed to classify the row',
+      comparisonId: expect.any(String),
+      providerErrors: { zonos: expect.stringMatching(/No zonos fixture/) },
+    });
+  });
+
+  it('resumes a job interrupted by a restart, keeping its finished rows', async () => {
+    const repository = await getComparisonRepository();
+    const id = 'interrupted-job';
+    await repository.saveBatchJob({
+      id,
+      status: 'running',
+      format: 'jsonl',
+      options,
+      createdAt: '2025-01-01T00:00:00.000Z',
+      startedAt: '2025-01-01T00:00:01.000Z',
+      progress: { total: 2, completed: 1, failed: 0 },
+    });
+    await repository.saveBatchItems(id, [
+      { index: 0, row: { productName: 'Done before the restart' }, status: 'completed', comparisonId: 'kept' },
+      { index: 1, row: { productName: '100% cotton t-shirt', productDescription: shirt, productValue: 20 }, status: 'running' },
+    ]);
+
+    expect(await resumeBatchJobs()).toBe(1);
+    const job = await finished(id);
+
+    expect(job).toMatchObject({ status: 'completed', startedAt: '2025-01-01T00:00:01.000Z', progress: { completed: 2 } });
+    expect(job.items[0].comparisonId).toBe('kept');
+    expect(job.items[1]).toMatchObject({ status: 'completed', comparisonId: expect.any(String) });
+    expect((await getComparisonResult(job.items[1].comparisonId!))?.classifications.zonos.error).toBeUndefined();
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MIN_CALIBRATION_SAMPLES,
+  applyCurve,
+  calibrationSamples,
+  crossValidatedReliability,
+  fitCurve,
+  reliability,
+} from '../src/services/calibration/index.js';
+import { getComparisonStats, labelComparison, runComparison } from '../src/services/comparison.js';
+import { getComparisonRepository } from '../src/services/storage/index.js';
+import type { ComparisonResult } from '../src/types/classification.js';
+
+const sample = (confidence: number, correct: boolean) => ({ confidence, correct });
+
+describe('reliability', () => {
+  it('bins confidence and measures the gap to accuracy', () => {
+    const calibration = reliability([sample(0.9, true), sample(0.9, false), sample(0.2, false)]);
+    expect(calibration.bins).toEqual([
+      { range: [0.2, 0.3], count: 1, meanConfidence: 0.2, accuracy: 0 },
+      { range: [0.9, 1], count: 2, meanConfidence: 0.9, accuracy: 0.5 },
+    ]);
+    // (1/3)·0.2 + (2/3)·0.4
+    expect(calibration.expectedCalibrationError).toBe(0.3333);
+  });
+});
+
+describe('fitCurve', () => {
+  it('pools samples until accuracy never falls as confidence rises', () => {
+    const curve = fitCurve('anthropic', [
+      sample(0.5, false),
+      sample(0.6, true),
+      sample(0.7, false),
+      sample(0.9, true),
+      sample(0.95, true),
+    ]);
+    expect(curve.points).toEqual([
+      { confidence: 0.5, probability: 0 },
+      { confidence: 0.65, probability: 0.5 },
+      { confidence: 0.925, probability: 1 },
+    ]);
+  });
+
+  it('keeps samples with the same confidence together', () => {
+    const curve = fitCurve('zonos', [sample(0.85, true), sample(0.85, false), sample(0.85, false), sample(0.85, true)]);
+    expect(curve.points).toEqual([{ confidence: 0.85, probability: 0.5 }]);
+    expect(applyCurve(curve, 0.85)).toBe(0.5);
+  });
+});
+
+describe('applyCurve', () => {
+  const curve = fitCurve('anthropic', [sample(0.4, false), sample(0.8, true)]);
+
+  it('interpolates between points and is flat beyond them', () => {
+    expect(applyCurve(curve, 0.6)).toBe(0.5);
+    expect(applyCurve(curve, 0.1)).toBe(0);
+    expect(applyCurve(curve, 0.99)).toBe(1);
+  });
+});
+
+describe('crossValidatedReliability', () => {
+  it('scores each fold with a curve fitted on the others', () => {
+    const samples = [
+      ...[1, 0, 0, 1, 0, 0, 0, 1, 0, 0].map((correct) => sample(0.6, correct === 1)),
+      ...[1, 1, 0, 1, 1, 1, 1, 0, 1, 1].map((correct) => sample(0.9, correct === 1)),
+    ];
+    const curve = fitCurve('anthropic', samples);
+    const inSample = reliability(samples.map((s) => ({ ...s, confidence: applyCurve(curve, s.confidence) })));
+
+    expect(inSample.expectedCalibrationError).toBe(0);
+    expect(crossValidatedReliability('anthropic', samples).expectedCalibrationError).toBe(0.35);
+  });
+});
+
+function labelled(id: string, confidence: number, hsCode: string): ComparisonResult {
+  return {
+    id,
+    timestamp: new Date().toISOString(),
+    input: { productName: id, shipToCountry: 'FR' },
+    shipToCountry: 'FR',
+    currency: 'EUR',
+    classifications: {
+      anthropic: { provider: 'anthropic', hsCode, hsCode6: hsCode.slice(0, 6), description: '', confidence, latencyMs: 1 },
+      openai: { provider: 'openai', hsCode: '', hsCode6: '', description: '', confidence: 0, latencyMs: 1, error: 'Timed out' },
+    },
+    analysis: { hsCodeMatch: {}, hs6Match: {}, confidenceScores: {} },
+    groundTruth: { hsCode: '610910', source: 'broker', labelledAt: new Date().toISOString() },
+  };
+}
+
+describe('calibration from labelled comparisons', () => {
+  it('takes one sample per answering provider, right or wrong at HS6', () => {
+    const samples = calibrationSamples([labelled('a', 0.9, '61091000'), labelled('b', 0.8, '61099020')]);
+    expect(samples).toEqual({ anthropic: [sample(0.9, true), sample(0.8, false)] });
+  });
+
+  it('calibrates new classifications once enough labels are stored', async () => {
+    const repository = await getComparisonRepository();
+    // Claude is right half the time whatever it claims
+    for (let i = 0; i < MIN_CALIBRATION_SAMPLES; i++) {
+      await repository.save(labelled(`history-${i}`, 0.9, i % 2 ? '61091000' : '61099020'));
+    }
+    await labelComparison('history-0', { hsCode: '610910', source: 'broker' });
+
+    const result = await runComparison({
+      productName: '100% cotton t-shirt',
+      productDescription: "Men's short-sleeve knitted cotton t-shirt",
+      originCountry: 'CN',
+      shipToCountry: 'FR',
+      productValue: 20,
+      currency: 'EUR',
+      dutyEngine: 'local',
+    });
+    expect(result.classifications.anthropic).toMatchObject({ confidence: 0.92, calibratedConfidence: 0.5 });
+    expect(result.classifications.openai.calibratedConfidence).toBeUndefined();
+
+    const stats = await getComparisonStats();
+    expect(stats.calibration.anthropic.samples).toBe(MIN_CALIBRATION_SAMPLES);
+    expect(stats.calibration.anthropic.raw.expectedCalibrationError).toBe(0.4);
+    expect(stats.calibration.anthropic.calibrated?.expectedCalibrationError).toBe(0);
+    expect(stats.calibration.openai).toBeUndefined();
+  });
+});
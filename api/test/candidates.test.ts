@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_ALTERNATIVES, rankAlternatives } from '../src/services/classifiers/candidates.js';
+
+const codes = (alternatives: ReturnType<typeof rankAlternatives>) => alternatives.map((a) => a.hsCode);
+
+describe('rankAlternatives', () => {
+  it('drops codes on the same line as the chosen code or an earlier alternative', () => {
+    const alternatives = rankAlternatives('6109.10.00', [
+      { hsCode: '6109.10', confidence: 0.6 },
+      { hsCode: '6109.90.20', confidence: 0.3 },
+      { hsCode: '6109.90', confidence: 0.2 },
+      { hsCode: '6109.10.0010', confidence: 0.1 },
+    ]);
+    expect(codes(alternatives)).toEqual(['61099020']);
+  });
+
+  it(`keeps the ${MAX_ALTERNATIVES} most confident`, () => {
+    const alternatives = rankAlternatives('6109.10', [
+      { hsCode: '6105.10', confidence: 0.1 },
+      { hsCode: '6110.20', confidence: 0.4 },
+      { hsCode: '6106.10', confidence: 0.2 },
+      { hsCode: '6205.20', confidence: 0.05 },
+      { hsCode: '6109.90', confidence: 0.3 },
+    ]);
+    expect(alternatives).toHaveLength(MAX_ALTERNATIVES);
+    expect(codes(alternatives)).toEqual(['611020', '610990', '610610']);
+  });
+
+  it('ranks candidates without a confidence last, in the order given, at confidence 0', () => {
+    const alternatives = rankAlternatives('6109.10', [
+      { hsCode: '6105.10' },
+      { hsCode: '6110.20', confidence: 0.4 },
+      { hsCode: '6106.10' },
+    ]);
+    expect(codes(alternatives)).toEqual(['611020', '610510', '610610']);
+    expect(alternatives[1]).toMatchObject({ confidence: 0, description: '' });
+  });
+
+  it('drops codes that do not exist', () => {
+    expect(codes(rankAlternatives('6109.10', [{ hsCode: '7799.00', confidence: 0.5 }, { hsCode: 'n/a', confidence: 0.4 }]))).toEqual([]);
+  });
+});
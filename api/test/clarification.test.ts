@@ -0,0 +1,146 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import compareRouter from '../src/routes/compare.js';
+import { answerClarification } from '../src/services/clarification/index.js';
+import { getComparisonResult, labelComparison } from '../src/services/comparison.js';
+import { getComparisonRepository } from '../src/services/storage/index.js';
+import type { ClarificationSession, ComparisonResult } from '../src/types/classification.js';
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/compare', compareRouter);
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+interface ApiError {
+  error: string;
+  message?: string;
+  details?: unknown[];
+  status?: ClarificationSession['status'];
+  session?: ClarificationSession;
+}
+
+// The caller names the body it expects from the status it asserts
+async function request<T>(method: string, path: string, body?: unknown): Promise<{ status: number; body: T }> {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+  return { status: response.status, body: (await response.json()) as T };
+}
+
+async function storedComparison(id: string): Promise<ComparisonResult> {
+  const result: ComparisonResult = {
+    id,
+    timestamp: new Date().toISOString(),
+    input: { productName: 'Running shoes', shipToCountry: 'FR' },
+    shipToCountry: 'FR',
+    currency: 'EUR',
+    classifications: {},
+    analysis: { hsCodeMatch: {}, hs6Match: {}, confidenceScores: {} },
+  };
+  await (await getComparisonRepository()).save(result);
+  return result;
+}
+
+describe('clarification sessions (replayed Anthropic)', () => {
+  it('asks what the code hinges on, then refines with the answer', async () => {
+    await storedComparison('shoes-1');
+
+    const started = await request<ClarificationSession>('POST', '/api/compare/shoes-1/clarify');
+    expect(started.status).toBe(200);
+    expect(started.body.status).toBe('awaiting_answers');
+    expect(started.body.rounds[0].classification).toMatchObject({ hsCode: '640411', confidence: 0.55 });
+    expect(started.body.rounds[0].questions).toEqual([
+      expect.objectContaining({ id: 'r1q1', question: 'Is the upper leather or textile?', options: ['Leather', 'Textile', 'Synthetic'] }),
+    ]);
+
+    const answered = await request<ClarificationSession>('POST', '/api/compare/shoes-1/clarify/answers', {
+      answers: [{ questionId: 'r1q1', answer: 'Leather', source: 'tap' }],
+    });
+    expect(answered.status).toBe(200);
+    expect(answered.body.status).toBe('complete');
+    expect(answered.body.rounds).toHaveLength(2);
+    expect(answered.body.rounds[0].answers).toEqual([{ questionId: 'r1q1', answer: 'Leather', source: 'tap' }]);
+    expect(answered.body.rounds[1].classification).toMatchObject({ hsCode: '640319', confidence: 0.88 });
+
+    // Stored with the comparison
+    const stored = await request<ComparisonResult>('GET', '/api/compare/shoes-1');
+    expect(stored.body.clarification?.status).toBe('complete');
+    expect((await request<ClarificationSession>('GET', '/api/compare/shoes-1/clarify')).body.rounds).toHaveLength(2);
+  });
+
+  it('rejects answers once the session is complete', async () => {
+    const { status } = await request<ApiError>('POST', '/api/compare/shoes-1/clarify/answers', {
+      answers: [{ questionId: 'r2q1', answer: 'Leather' }],
+    });
+    expect(status).toBe(409);
+  });
+
+  it('rejects answers to questions that were not asked', async () => {
+    await storedComparison('shoes-2');
+    await request<ClarificationSession>('POST', '/api/compare/shoes-2/clarify');
+
+    const { status, body } = await request<ApiError>('POST', '/api/compare/shoes-2/clarify/answers', {
+      answers: [{ questionId: 'r1q9', answer: 'Leather' }],
+    });
+    expect(status).toBe(400);
+    expect(body.details).toEqual(['Unknown question r1q9']);
+  });
+
+  it('answers 502 when the next round fails, and takes the same answers again', async () => {
+    await storedComparison('shoes-4');
+    await request<ClarificationSession>('POST', '/api/compare/shoes-4/clarify');
+
+    // No round is recorded for a textile upper, so classifying with it fails
+    const failed = await request<ApiError>('POST', '/api/compare/shoes-4/clarify/answers', {
+      answers: [{ questionId: 'r1q1', answer: 'Textile' }],
+    });
+    expect(failed.status).toBe(502);
+    expect(failed.body).toMatchObject({ error: 'Clarification round failed', message: expect.any(String) });
+    expect(failed.body.session).toMatchObject({ status: 'awaiting_answers', rounds: [{}] });
+    const session = (await request<ClarificationSession>('GET', '/api/compare/shoes-4/clarify')).body;
+    expect(session.status).toBe('awaiting_answers');
+    expect(session.rounds).toHaveLength(1);
+    expect(session.rounds[0].answers).toBeUndefined();
+
+    const retried = await request<ClarificationSession>('POST', '/api/compare/shoes-4/clarify/answers', {
+      answers: [{ questionId: 'r1q1', answer: 'Leather', source: 'tap' }],
+    });
+    expect(retried.status).toBe(200);
+    expect(retried.body).toMatchObject({ status: 'complete', rounds: [{ answers: [{ answer: 'Leather' }] }, {}] });
+  });
+
+  it('keeps changes made to the comparison while a round runs', async () => {
+    const result = await storedComparison('shoes-5');
+    await request<ClarificationSession>('POST', '/api/compare/shoes-5/clarify');
+    // Labelled after the session was read, as if during the round
+    const read = (await getComparisonResult('shoes-5'))!;
+    await labelComparison('shoes-5', { hsCode: '640319', source: 'broker' });
+
+    const { session } = await answerClarification(read, [{ questionId: 'r1q1', answer: 'Leather' }]);
+    expect(session.status).toBe('complete');
+    const stored = await getComparisonResult(result.id);
+    expect(stored?.groundTruth?.hsCode).toBe('640319');
+    expect(stored?.clarification?.rounds).toHaveLength(2);
+  });
+
+  it('reports a missing comparison or session', async () => {
+    expect((await request<ApiError>('POST', '/api/compare/missing/clarify')).status).toBe(404);
+    await storedComparison('shoes-3');
+    expect((await request<ApiError>('GET', '/api/compare/shoes-3/clarify')).body.error).toBe('No clarification session');
+  });
+});
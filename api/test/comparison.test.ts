@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeResults, getComparisonResult, runComparison } from '../src/services/comparison.js';
+import type { ClassificationResult, ComparisonProgressEvent, DutyCalculation } from '../src/types/classification.js';
+
+function classification(provider: string, hsCode: string, confidence: number, error?: string): ClassificationResult {
+  return {
+    provider,
+    hsCode,
+    hsCode6: hsCode.slice(0, 6),
+    description: '',
+    confidence,
+    latencyMs: 100,
+    ...(error && { error }),
+  };
+}
+
+describe('analyzeResults', () => {
+  it('scores providers against the reference provider', () => {
+    const analysis = analyzeResults({
+      anthropic: classification('anthropic', '6109100010', 0.9),
+      openai: classification('openai', '61099020', 0.8),
+      zonos: classification('zonos', '6109100010', 0.85),
+    });
+
+    expect(analysis.referenceProvider).toBe('zonos');
+    expect(analysis.hsCodeMatch.anthropic.zonos).toBe(true);
+    expect(analysis.hsCodeMatch.openai.zonos).toBe(false);
+    expect(analysis.hs6Match.openai.zonos).toBe(false);
+    expect(analysis.winner).toBe('anthropic');
+    expect(analysis.notes).toContain('Anthropic matches Zonos.');
+  });
+
+  it('notes agreement at HS6 when full codes differ', () => {
+    const analysis = analyzeResults({
+      anthropic: classification('anthropic', '61091000', 0.9),
+      zonos: classification('zonos', '6109100010', 0.85),
+    });
+    expect(analysis.hs6Match.anthropic.zonos).toBe(true);
+    expect(analysis.notes).toContain('All providers agree on HS6 (first 6 digits), differ on full code.');
+  });
+
+  it('treats formatting differences as the same code', () => {
+    const analysis = analyzeResults({
+      anthropic: classification('anthropic', '6109.10.0010', 0.9),
+      zonos: classification('zonos', '6109100010', 0.85),
+    });
+    expect(analysis.hsCodeMatch.anthropic.zonos).toBe(true);
+    expect(analysis.notes).toContain('All providers returned the same HS code.');
+  });
+
+  it('never matches a provider that failed', () => {
+    const analysis = analyzeResults({
+      anthropic: classification('anthropic', '', 0, 'Timed out after 30000ms'),
+      openai: classification('openai', '420221', 0.7),
+      zonos: classification('zonos', '420221', 0.85),
+    });
+    expect(analysis.hsCodeMatch.anthropic.zonos).toBe(false);
+    expect(analysis.hs6Match.anthropic.openai).toBe(false);
+    expect(analysis.winner).toBe('openai');
+  });
+
+  it('reports a tie when providers score equally', () => {
+    const analysis = analyzeResults({
+      anthropic: classification('anthropic', '420221', 0.8),
+      openai: classification('openai', '420221', 0.8),
+      zonos: classification('zonos', '420221', 0.85),
+    });
+    expect(analysis.winner).toBe('tie');
+  });
+
+  it('computes landed cost differences between duty calculations', () => {
+    const duty = (provider: string, totalLandedCost: number): DutyCalculation => ({
+      provider,
+      hsCode: '420221',
+      duties: { amount: 0, rate: '0%', type: 'customs_duty' },
+      vat: { amount: 0, rate: '0%' },
+      totalLandedCost,
+      breakdown: [],
+      currency: 'EUR',
+      latencyMs: 1,
+    });
+    const analysis = analyzeResults(
+      {
+        anthropic: classification('anthropic', '420221', 0.8),
+        zonos: classification('zonos', '420229', 0.85),
+      },
+      { anthropic: duty('anthropic', 130), zonos: duty('zonos', 210) }
+    );
+    expect(analysis.dutyDifference?.anthropic.zonos).toBe(80);
+    expect(analysis.notes).toContain('Significant duty difference detected: up to 80.00 EUR');
+  });
+});
+
+describe('runComparison (replayed providers)', () => {
+  const request = {
+    productName: '100% cotton t-shirt',
+    productDescription: "Men's short-sleeve knitted cotton t-shirt",
+    originCountry: 'CN',
+    shipToCountry: 'FR',
+    productValue: 20,
+    currency: 'EUR',
+    dutyEngine: 'local' as const,
+  };
+
+  it('classifies with every provider and analyses the result', async () => {
+    const result = await runComparison(request);
+
+    expect(result.classifications.anthropic).toMatchObject({ hsCode: '61091000', confidence: 0.92 });
+    expect(result.classifications.anthropic.usage).toEqual({
+      model: 'claude-sonnet-4-20250514',
+      inputTokens: 1155,
+      outputTokens: 248,
+    });
+    // Ranked by confidence; the restated 6109.10 is not an alternative to 6109.10.00
+    expect(result.classifications.anthropic.alternatives?.map((a) => a.hsCode)).toEqual(['61099020', '61051000']);
+    expect(result.classifications.openai).toMatchObject({ hsCode: '61099020', confidence: 0.74 });
+    expect(result.classifications.openai.alternatives).toEqual([
+      expect.objectContaining({ hsCode: '61091000', hsCode6: '610910', confidence: 0.21 }),
+    ]);
+    expect(result.classifications.zonos).toMatchObject({ hsCode: '6109100010', hsCode6: '610910' });
+
+    expect(result.analysis.hs6Match.anthropic.zonos).toBe(true);
+    expect(result.analysis.hs6Match.openai.zonos).toBe(false);
+    expect(result.analysis.winner).toBe('anthropic');
+  });
+
+  it('calculates duty for each classification and stores the result', async () => {
+    const result = await runComparison(request);
+
+    expect(Object.keys(result.dutyCalculations ?? {})).toEqual(['anthropic', 'openai', 'zonos']);
+    expect(result.dutyEngine).toBe('local');
+    for (const calculation of Object.values(result.dutyCalculations!)) {
+      expect(calculation.error).toBeUndefined();
+      expect(calculation.engine).toBe('local');
+      expect(calculation.currency).toBe('EUR');
+    }
+
+    const stored = await getComparisonResult(result.id);
+    expect(stored?.classifications.zonos.hsCode).toBe('6109100010');
+  });
+
+  it('reports progress in pipeline order', async () => {
+    const events: ComparisonProgressEvent[] = [];
+    const result = await runComparison(request, (event) => events.push(event));
+
+    expect(events[0]).toMatchObject({ type: 'started', id: result.id });
+    expect(events.filter((e) => e.type === 'classification')).toHaveLength(3);
+    expect(events.at(-1)).toMatchObject({ type: 'result' });
+    const valueIndex = events.findIndex((e) => e.type === 'value');
+    expect(events.findIndex((e) => e.type === 'duty')).toBeGreaterThan(valueIndex);
+  });
+
+  it('reports a provider error when no fixture was recorded', async () => {
+    const result = await runComparison({ ...request, productName: 'Unrecorded product', providers: ['zonos'] });
+    expect(result.classifications.zonos.error).toMatch(/No zonos fixture/);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { adjudicateConsensus, voteConsensus } from '../src/services/consensus/index.js';
+import { runComparison } from '../src/services/comparison.js';
+import type { ClassificationResult } from '../src/types/classification.js';
+
+function classification(provider: string, hsCode: string, confidence: number, error?: string): ClassificationResult {
+  return {
+    provider,
+    hsCode,
+    hsCode6: hsCode.slice(0, 6),
+    ...(hsCode.length >= 8 && { hsCode8: hsCode.slice(0, 8) }),
+    description: `${provider} description`,
+    confidence,
+    latencyMs: 100,
+    ...(error && { error }),
+  };
+}
+
+const equalWeight = () => 1;
+
+describe('voteConsensus', () => {
+  it('picks the HS6 most providers agree on, then the HS8 within it', () => {
+    const consensus = voteConsensus(
+      {
+        anthropic: classification('anthropic', '61091000', 0.92),
+        openai: classification('openai', '61099020', 0.74),
+        zonos: classification('zonos', '6109100010', 0.85),
+      },
+      'vote',
+      equalWeight
+    );
+
+    expect(consensus).toMatchObject({
+      method: 'vote',
+      hsCode: '61091000',
+      hsCode6: '610910',
+      hsCode8: '61091000',
+      description: 'anthropic description',
+      agreement: 0.67,
+      hs8Agreement: 1,
+      supporters: ['anthropic', 'zonos'],
+      votes: { '610910': 2, '610990': 1 },
+    });
+    expect(consensus?.tieBroken).toBeUndefined();
+  });
+
+  it('is unanimous when every provider agrees', () => {
+    const consensus = voteConsensus(
+      { anthropic: classification('anthropic', '420221', 0.8), openai: classification('openai', '420221', 0.7) },
+      'vote',
+      equalWeight
+    );
+    expect(consensus).toMatchObject({ method: 'unanimous', agreement: 1, hsCode: '420221' });
+  });
+
+  it('breaks an equal vote on confidence', () => {
+    const consensus = voteConsensus(
+      { anthropic: classification('anthropic', '420221', 0.6), openai: classification('openai', '420222', 0.9) },
+      'vote',
+      equalWeight
+    );
+    expect(consensus).toMatchObject({ hsCode6: '420222', agreement: 0.5, tieBroken: true });
+  });
+
+  it('weighs providers and ignores failed ones', () => {
+    const consensus = voteConsensus(
+      {
+        anthropic: classification('anthropic', '420221', 0.9),
+        openai: classification('openai', '420229', 0.7),
+        zonos: classification('zonos', '', 0, 'Timed out after 15000ms'),
+      },
+      'vote',
+      (provider) => (provider === 'openai' ? 2 : 1)
+    );
+    expect(consensus).toMatchObject({ hsCode6: '420229', agreement: 0.67, supporters: ['openai'] });
+  });
+
+  it('is undefined when no provider produced a code', () => {
+    expect(voteConsensus({ zonos: classification('zonos', '', 0, 'Failed') }, 'vote', equalWeight)).toBeUndefined();
+  });
+});
+
+describe('adjudicateConsensus', () => {
+  it('leaves a unanimous vote alone', async () => {
+    const classifications = { anthropic: classification('anthropic', '420221', 0.8) };
+    const vote = voteConsensus(classifications, 'adjudicate', equalWeight)!;
+    expect(await adjudicateConsensus({ shipToCountry: 'FR' }, classifications, vote, equalWeight)).toBe(vote);
+  });
+});
+
+describe('runComparison with consensus (replayed providers)', () => {
+  const request = {
+    productName: '100% cotton t-shirt',
+    productDescription: "Men's short-sleeve knitted cotton t-shirt",
+    originCountry: 'CN',
+    shipToCountry: 'FR',
+    productValue: 20,
+    currency: 'EUR',
+    dutyEngine: 'local' as const,
+  };
+
+  it('omits consensus unless requested', async () => {
+    const result = await runComparison(request);
+    expect(result.consensus).toBeUndefined();
+  });
+
+  it('asks the adjudicator to settle a split vote', async () => {
+    const result = await runComparison({ ...request, consensus: 'adjudicate' });
+
+    expect(result.consensus).toMatchObject({
+      mode: 'adjudicate',
+      method: 'adjudicated',
+      hsCode: '61091000',
+      hsCode6: '610910',
+      agreement: 0.67,
+      supporters: ['anthropic', 'zonos'],
+    });
+    expect(result.consensus?.adjudication).toMatchObject({
+      hsCode: '61091000',
+      confidence: 0.9,
+      usage: { model: 'claude-sonnet-4-20250514', inputTokens: 986, outputTokens: 112 },
+    });
+    expect(result.consensus?.adjudication?.error).toBeUndefined();
+  });
+});
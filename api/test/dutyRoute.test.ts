@@ -0,0 +1,130 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import dutyRouter from '../src/routes/duty.js';
+import type { DutyCalculation } from '../src/types/classification.js';
+import type { ShipmentDutyCalculation } from '../src/types/shipment.js';
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/duty', dutyRouter);
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+interface ApiError {
+  error: string;
+  details?: unknown[];
+}
+
+// The caller names the body it expects from the status it asserts
+async function post<T>(path: string, body: unknown): Promise<{ status: number; body: T }> {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, body: (await response.json()) as T };
+}
+
+describe('POST /api/duty', () => {
+  it('rejects codes that are not in the nomenclature', async () => {
+    const { status, body } = await post<ApiError>('/api/duty', { hsCode: '0199.00', productValue: 100, engine: 'local' });
+    expect(status).toBe(400);
+    expect(body.error).toBe('Validation error');
+  });
+
+  it('rejects a non-positive product value', async () => {
+    const { status } = await post<ApiError>('/api/duty', { hsCode: '6109.10', productValue: 0, engine: 'local' });
+    expect(status).toBe(400);
+  });
+
+  it('calculates duty and VAT from the local schedules', async () => {
+    const { status, body } = await post<DutyCalculation>('/api/duty', {
+      hsCode: '6109.10.00',
+      productValue: 200,
+      currency: 'EUR',
+      originCountry: 'CN',
+      shipToCountry: 'FR',
+      engine: 'local',
+    });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ engine: 'local', hsCode: '61091000', currency: 'EUR' });
+    expect(body.duties).toMatchObject({ amount: 24, rate: '12%' });
+    expect(body.vat.amount).toBe(44.8);
+    expect(body.totalLandedCost).toBe(268.8);
+  });
+
+  it('shows one duty line when a preference applies and the duty is waived under de minimis', async () => {
+    const { status, body } = await post<DutyCalculation>('/api/duty', {
+      hsCode: '6109.10.00',
+      productValue: 100,
+      currency: 'EUR',
+      originCountry: 'GB',
+      shipToCountry: 'FR',
+      engine: 'local',
+    });
+
+    expect(status).toBe(200);
+    expect(body.breakdown.map((line) => line.type)).toEqual([
+      'Product',
+      'Customs Duty (de minimis)',
+      'VAT',
+    ]);
+    expect(body.duties.amount).toBe(0);
+    expect(body.vat.amount).toBe(20);
+  });
+
+  it('calculates landed cost through Zonos (replayed)', async () => {
+    const { status, body } = await post<DutyCalculation>('/api/duty', {
+      hsCode: '6109100010',
+      productValue: 200,
+      currency: 'EUR',
+      originCountry: 'CN',
+      shipToCountry: 'FR',
+      engine: 'zonos',
+    });
+
+    expect(status).toBe(200);
+    expect(body.error).toBeUndefined();
+    expect(body).toMatchObject({ engine: 'zonos', hsCode: '6109100010' });
+    expect(body.duties.amount).toBe(24);
+    expect(body.vat.amount).toBe(44.8);
+    expect(body.totalLandedCost).toBe(271.3);
+  });
+});
+
+describe('POST /api/duty/shipment', () => {
+  it('assesses each line and totals the consignment', async () => {
+    const { status, body } = await post<ShipmentDutyCalculation>('/api/duty/shipment', {
+      items: [
+        { hsCode: '6109.10', quantity: 2, unitValue: 50 },
+        { hsCode: '4202.21', quantity: 1, unitValue: 100 },
+      ],
+      currency: 'EUR',
+      originCountry: 'CN',
+      shipToCountry: 'FR',
+      engine: 'local',
+    });
+
+    expect(status).toBe(200);
+    expect(body.lines).toHaveLength(2);
+    expect(body.lines[0].lineValue).toBe(100);
+    expect(body.totals.productValue).toBe(200);
+    expect(body.totals.duties).toBeCloseTo(
+      body.lines.reduce((sum, line) => sum + line.duties.amount, 0),
+      2
+    );
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { classificationCodes, lookupHsCode, validateHsCode } from '../src/services/hs/index.js';
+
+describe('validateHsCode', () => {
+  it('verifies a code down to a bundled subheading', () => {
+    expect(validateHsCode('8471.30')).toMatchObject({ valid: true, verifiedTo: 'subheading', errors: [] });
+  });
+
+  it('rejects malformed codes and codes outside their chapter', () => {
+    expect(validateHsCode('61-09').valid).toBe(false);
+    expect(validateHsCode('7799.00').errors).toEqual(['Chapter 77 does not exist']);
+    expect(validateHsCode('0199.00').errors).toEqual(['Heading 0199 does not exist in chapter 01']);
+  });
+
+  it('accepts a subheading the bundled nomenclature does not list, as unverified', () => {
+    const validation = validateHsCode('6109.30.00');
+    expect(validation).toMatchObject({ valid: true, verifiedTo: 'heading', errors: [] });
+    expect(validation.unverified).toMatch(/6109\.30 is not in the bundled nomenclature/);
+    expect(classificationCodes({ hsCode: '6109.30.00' })).toEqual({ hsCode: '61093000', hsCode6: '610930', hsCode8: '61093000' });
+  });
+});
+
+describe('lookupHsCode', () => {
+  it('looks up chapters and headings as well as full codes', () => {
+    expect(lookupHsCode('61')).toMatchObject({ verifiedTo: 'chapter', chapter: { code: '61' }, section: { code: 'XI' } });
+    expect(lookupHsCode('6109')).toMatchObject({ verifiedTo: 'heading', heading: { code: '6109' } });
+    expect(lookupHsCode('6109.10.00')).toMatchObject({ verifiedTo: 'subheading', subheading: { code: '610910' }, national: '00' });
+  });
+
+  it('returns undefined for chapters and headings that do not exist', () => {
+    expect(lookupHsCode('77')).toBeUndefined();
+    expect(lookupHsCode('6199')).toBeUndefined();
+  });
+});
@@ -0,0 +1,92 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { configuredModel, modelParams, resolveModel } from '../src/services/llm/index.js';
+import { getComparisonStats, runComparison } from '../src/services/comparison.js';
+
+describe('model settings', () => {
+  afterEach(() => {
+    delete process.env.OPENAI_MODEL;
+    delete process.env.OPENAI_TEMPERATURE;
+    delete process.env.VOICE_MAX_TOKENS;
+  });
+
+  it('reads each role from the environment over the defaults', () => {
+    expect(configuredModel('anthropic')).toEqual({ model: 'claude-sonnet-4-20250514', maxTokens: 1024 });
+
+    process.env.OPENAI_MODEL = 'gpt-4o-mini';
+    process.env.OPENAI_TEMPERATURE = '0';
+    process.env.VOICE_MAX_TOKENS = 'lots';
+    expect(configuredModel('openai')).toEqual({ model: 'gpt-4o-mini', temperature: 0, maxTokens: 1024 });
+    expect(configuredModel('voice').maxTokens).toBe(256);
+  });
+
+  it('applies a comparison override field by field', () => {
+    const settings = resolveModel('openai', { temperature: 0.2, model: undefined });
+    expect(settings).toEqual({ model: 'gpt-4o', temperature: 0.2, maxTokens: 1024 });
+    expect(modelParams(settings)).toEqual({ model: 'gpt-4o', max_tokens: 1024, temperature: 0.2 });
+    expect(modelParams(configuredModel('anthropic'))).not.toHaveProperty('temperature');
+  });
+});
+
+// The parts of a Chat Completions fixture the tests look at
+const ChatCompletionFixture = z.object({
+  request: z.object({ body: z.object({ model: z.string(), temperature: z.number().optional(), max_tokens: z.number() }) }),
+  response: z.object({ body: z.object({ model: z.string() }) }),
+});
+
+function recordedOpenAI(): Array<z.infer<typeof ChatCompletionFixture>> {
+  const dir = path.join(process.env.PROVIDER_FIXTURES_DIR!, 'openai');
+  return fs
+    .readdirSync(dir)
+    .map((file) => ChatCompletionFixture.parse(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'))));
+}
+
+describe('models on comparisons (replayed providers)', () => {
+  const request = {
+    productName: '100% cotton t-shirt',
+    productDescription: "Men's short-sleeve knitted cotton t-shirt",
+    originCountry: 'CN',
+    shipToCountry: 'FR',
+    productValue: 20,
+    currency: 'EUR',
+    dutyEngine: 'local' as const,
+  };
+
+  it('records the model on each LLM classification and breaks stats down by it', async () => {
+    const result = await runComparison(request);
+
+    expect(result.input.models).toEqual({
+      anthropic: { model: 'claude-sonnet-4-20250514', maxTokens: 1024 },
+      openai: { model: 'gpt-4o', maxTokens: 1024 },
+    });
+    expect(result.classifications.anthropic.model).toBe('claude-sonnet-4-20250514');
+    expect(result.classifications.openai.model).toBe('gpt-4o');
+    expect(result.classifications.openai.usage?.model).toBe('gpt-4o-2024-08-06');
+    expect(result.classifications.zonos.model).toBeUndefined();
+
+    const stats = await getComparisonStats();
+    expect(stats.models.anthropic['claude-sonnet-4-20250514']).toMatchObject({ classifications: 1, avgConfidence: 0.92 });
+    expect(stats.models.openai['gpt-4o']).toMatchObject({ classifications: 1, errors: 0, hs6MatchRate: 0 });
+    expect(stats.models.zonos).toBeUndefined();
+  });
+
+  it('sends the model a comparison asks for', async () => {
+    const result = await runComparison({
+      ...request,
+      providers: ['openai'],
+      models: { openai: { model: 'gpt-4o-mini', temperature: 0 } },
+    });
+
+    // Replays are keyed on the request body, so only a gpt-4o-mini request at temperature 0 finds this fixture
+    expect(result.classifications.openai.error).toBeUndefined();
+    expect(result.classifications.openai).toMatchObject({ model: 'gpt-4o-mini', usage: { model: 'gpt-4o-mini-2024-07-18' } });
+    const fixture = recordedOpenAI().find((f) => f.response.body.model === 'gpt-4o-mini-2024-07-18');
+    expect(fixture?.request.body).toMatchObject({ model: 'gpt-4o-mini', temperature: 0, max_tokens: 1024 });
+
+    const stats = await getComparisonStats();
+    expect(stats.models.openai['gpt-4o-mini']).toMatchObject({ classifications: 1, errors: 0 });
+    expect(stats.models.openai['gpt-4o'].classifications).toBe(1);
+  });
+});
@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  assignPromptVersions,
+  getDefaultPrompt,
+  getPromptExperiments,
+  listPrompts,
+  loadPromptExperiments,
+  registerPrompt,
+  resolvePrompt,
+  setPromptExperiment,
+  unregisterPrompt,
+} from '../src/services/prompts/index.js';
+import { getComparisonStats, runComparison } from '../src/services/comparison.js';
+
+describe('prompt registry', () => {
+  it('defaults each provider to its first registered version', () => {
+    expect(getDefaultPrompt('anthropic')?.version).toBe('v1');
+    expect(listPrompts('anthropic').map((prompt) => prompt.version)).toEqual(['v1', 'v2']);
+    expect(resolvePrompt('openai').version).toBe('v1');
+    expect(() => resolvePrompt('anthropic', 'v9')).toThrow('Unknown prompt version anthropic@v9');
+    expect(() => registerPrompt({ provider: 'anthropic', version: 'v1', system: '' })).toThrow(/already registered/);
+  });
+});
+
+describe('assignPromptVersions', () => {
+  afterEach(async () => {
+    await setPromptExperiment('anthropic', undefined);
+    unregisterPrompt('anthropic', 'v2-test');
+  });
+
+  it('uses the defaults when no experiment runs', () => {
+    expect(assignPromptVersions('comparison-1')).toEqual({ anthropic: 'v1', openai: 'v1' });
+  });
+
+  it('splits comparisons by weight, always the same way for one comparison', async () => {
+    registerPrompt({ provider: 'anthropic', version: 'v2-test', system: 'Classify.' });
+    await setPromptExperiment('anthropic', { v1: 75, 'v2-test': 25 });
+
+    const assigned = Array.from({ length: 400 }, (_, i) => assignPromptVersions(`comparison-${i}`).anthropic);
+    const share = assigned.filter((version) => version === 'v2-test').length / assigned.length;
+    expect(share).toBeGreaterThan(0.18);
+    expect(share).toBeLessThan(0.32);
+    expect(assignPromptVersions('comparison-7')).toEqual(assignPromptVersions('comparison-7'));
+    // Providers without an experiment keep their default
+    expect(new Set(Array.from({ length: 50 }, (_, i) => assignPromptVersions(`c-${i}`).openai))).toEqual(new Set(['v1']));
+  });
+
+  it('lets the request choose a version over the experiment', async () => {
+    registerPrompt({ provider: 'anthropic', version: 'v2-test', system: 'Classify.' });
+    await setPromptExperiment('anthropic', { 'v2-test': 1 });
+    expect(assignPromptVersions('comparison-1', { anthropic: 'v1' }).anthropic).toBe('v1');
+    expect(assignPromptVersions('comparison-1').anthropic).toBe('v2-test');
+  });
+});
+
+describe('loadPromptExperiments', () => {
+  afterEach(async () => {
+    delete process.env.PROMPT_EXPERIMENTS;
+    await setPromptExperiment('anthropic', undefined);
+    await setPromptExperiment('openai', undefined);
+  });
+
+  it('rejects a malformed PROMPT_EXPERIMENTS', async () => {
+    process.env.PROMPT_EXPERIMENTS = '{"anthropic":';
+    await expect(loadPromptExperiments()).rejects.toThrow('PROMPT_EXPERIMENTS is not valid JSON');
+    process.env.PROMPT_EXPERIMENTS = '{"anthropic":{"v1":"most"}}';
+    await expect(loadPromptExperiments()).rejects.toThrow(/must map providers/);
+    process.env.PROMPT_EXPERIMENTS = '{"anthropic":{"v1":80,"v9":20}}';
+    await expect(loadPromptExperiments()).rejects.toThrow('PROMPT_EXPERIMENTS names unknown prompt versions: anthropic@v9');
+  });
+
+  it('applies the stored experiments over the environment', async () => {
+    process.env.PROMPT_EXPERIMENTS = '{"anthropic":{"v1":80,"v2":20},"openai":{"v1":1}}';
+    await setPromptExperiment('anthropic', { v2: 1 });
+    await setPromptExperiment('openai', undefined);
+
+    expect(await loadPromptExperiments()).toEqual({ anthropic: { v2: 1 } });
+    expect(getPromptExperiments()).toEqual({ anthropic: { v2: 1 } });
+  });
+});
+
+describe('prompt versions on comparisons (replayed providers)', () => {
+  const request = {
+    productName: '100% cotton t-shirt',
+    productDescription: "Men's short-sleeve knitted cotton t-shirt",
+    originCountry: 'CN',
+    shipToCountry: 'FR',
+    productValue: 20,
+    currency: 'EUR',
+    dutyEngine: 'local' as const,
+  };
+
+  afterEach(async () => {
+    await setPromptExperiment('anthropic', undefined);
+  });
+
+  it('records the version on each LLM classification and breaks stats down by it', async () => {
+    const result = await runComparison(request);
+
+    expect(result.input.promptVersions).toEqual({ anthropic: 'v1', openai: 'v1' });
+    expect(result.classifications.anthropic.promptVersion).toBe('v1');
+    expect(result.classifications.openai.promptVersion).toBe('v1');
+    expect(result.classifications.zonos.promptVersion).toBeUndefined();
+
+    const stats = await getComparisonStats();
+    expect(stats.prompts.anthropic.v1).toMatchObject({ classifications: 1, errors: 0, avgConfidence: 0.92, hs6MatchRate: 1 });
+    expect(stats.prompts.openai.v1).toMatchObject({ classifications: 1, hs6MatchRate: 0 });
+    expect(stats.prompts.zonos).toBeUndefined();
+  });
+
+  it('splits traffic between the shipped versions and reports stats for each', async () => {
+    await setPromptExperiment('anthropic', { v1: 50, v2: 50 });
+    const assigned = Array.from({ length: 200 }, (_, i) => assignPromptVersions(`split-${i}`).anthropic);
+    const share = assigned.filter((version) => version === 'v2').length / assigned.length;
+    expect(share).toBeGreaterThan(0.4);
+    expect(share).toBeLessThan(0.6);
+
+    // Arms come from a hash of the new comparison's id, so run one of each by request
+    const v1 = await runComparison({ ...request, providers: ['anthropic'], promptVersions: { anthropic: 'v1' } });
+    const v2 = await runComparison({ ...request, providers: ['anthropic'], promptVersions: { anthropic: 'v2' } });
+    expect(v1.classifications.anthropic).toMatchObject({ promptVersion: 'v1', confidence: 0.92 });
+    expect(v2.classifications.anthropic).toMatchObject({ promptVersion: 'v2', hsCode: '61091000', confidence: 0.95 });
+
+    const stats = await getComparisonStats();
+    expect(stats.prompts.anthropic.v1).toMatchObject({ classifications: 2, errors: 0, avgConfidence: 0.92 });
+    expect(stats.prompts.anthropic.v2).toMatchObject({ classifications: 1, errors: 0, avgConfidence: 0.95 });
+  });
+});
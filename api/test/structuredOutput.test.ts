@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { classifyWithAnthropic } from '../src/services/classifiers/anthropic.js';
+import { classifyWithOpenAI } from '../src/services/classifiers/openai.js';
+import { CLASSIFICATION_OUTPUT, VOICE_COMMAND_OUTPUT, checkOutput, repairJson } from '../src/services/llm/index.js';
+
+describe('repairJson', () => {
+  it('unwraps code fences and surrounding prose', () => {
+    expect(repairJson('Here you go:\n```json\n{"hsCode": "6109.10"}\n```')).toEqual({ hsCode: '6109.10' });
+  });
+
+  it('drops trailing commas', () => {
+    expect(repairJson('{"codes": ["6109", "6110",], "confidence": 0.8,}')).toEqual({ codes: ['6109', '6110'], confidence: 0.8 });
+  });
+
+  it('throws when there is no object', () => {
+    expect(() => repairJson('I cannot classify this product.')).toThrow('No JSON object in output');
+  });
+});
+
+describe('checkOutput', () => {
+  it('accepts a valid classification', () => {
+    const check = checkOutput(CLASSIFICATION_OUTPUT, { hsCode: '6109.10.00', confidence: 0.9 });
+    expect(check).toMatchObject({ ok: true, data: { hsCode: '6109.10.00', description: '' } });
+  });
+
+  it('reports every schema problem with its path', () => {
+    const check = checkOutput(CLASSIFICATION_OUTPUT, '{"hsCode": "0199.00", "confidence": 1.4}');
+    expect(check.ok).toBe(false);
+    if (check.ok) return;
+    expect(check.type).toBe('schema_mismatch');
+    expect(check.issues).toHaveLength(2);
+    expect(check.issues[0]).toMatch(/^hsCode: Heading 0199 does not exist/);
+    expect(check.issues[1]).toMatch(/^confidence:/);
+  });
+
+  it('validates voice commands by type', () => {
+    expect(checkOutput(VOICE_COMMAND_OUTPUT, { type: 'ship_to', confidence: 0.9, countryCode: 'FR' }).ok).toBe(true);
+    expect(checkOutput(VOICE_COMMAND_OUTPUT, { type: null, confidence: 0 }).ok).toBe(true);
+    expect(checkOutput(VOICE_COMMAND_OUTPUT, { type: 'ship_to', confidence: 0.9, countryCode: 'France' }).ok).toBe(false);
+  });
+});
+
+describe('structured classifier output (replayed providers)', () => {
+  it('retries with the validation errors until the output is valid', async () => {
+    const result = await classifyWithAnthropic({ productName: 'Ceramic coffee mug', shipToCountry: 'FR' });
+
+    expect(result.error).toBeUndefined();
+    expect(result).toMatchObject({ hsCode: '69120010', hsCode6: '691200', confidence: 0.83 });
+    // Both attempts are billed
+    expect(result.usage).toMatchObject({ inputTokens: 2430, outputTokens: 283 });
+  });
+
+  it('reports a typed error once every attempt has failed', async () => {
+    const result = await classifyWithOpenAI({ productName: 'Mystery item', shipToCountry: 'FR' });
+
+    expect(result.hsCode).toBe('');
+    expect(result.error).toMatch(/^Unusable model output after 3 attempts/);
+    expect(result.outputError).toMatchObject({
+      type: 'invalid_json',
+      attempts: 3,
+      output: '{"hsCode": "9999.99", "confidence": high}',
+    });
+  });
+});
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { findSchedule, lookupRate } from '../src/services/duty/tariffSchedules.js';
+
+describe('lookupRate', () => {
+  const schedule = findSchedule('FR', new Date('2025-06-01'))!;
+
+  it('falls back from a full code to the longest listed prefix', () => {
+    expect(lookupRate(schedule, '6109.10.00.10')).toMatchObject({ code: '6109', rate: { rate: 12 } });
+  });
+
+  it('looks up codes with an odd number of digits', () => {
+    expect(lookupRate(schedule, '6109100')?.code).toBe('6109');
+    expect(lookupRate(schedule, '610910000')?.code).toBe('6109');
+  });
+});
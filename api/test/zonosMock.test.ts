@@ -0,0 +1,88 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { calculateLandedCost, createZonosMock } from '../src/mocks/zonos/index.js';
+import { calculateDutyWithZonos, calculateShipmentWithZonos, classifyWithZonos } from '../src/services/classifiers/zonos.js';
+
+let server: Server;
+const previousEnv = { ...process.env };
+
+// The real Zonos client, pointed at the mock
+beforeAll(async () => {
+  server = createZonosMock().listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  process.env.ZONOS_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.ZONOS_API_KEY = 'mock';
+  process.env.PROVIDER_MODE = 'live';
+});
+
+afterAll(() => {
+  server.close();
+  process.env = previousEnv;
+});
+
+describe('Zonos mock: classificationsCalculate', () => {
+  it('classifies from the bundled nomenclature', async () => {
+    const result = await classifyWithZonos({
+      productName: '100% cotton t-shirt',
+      productDescription: "Men's short-sleeve knitted cotton t-shirt",
+      shipToCountry: 'FR',
+    });
+    expect(result.error).toBeUndefined();
+    expect(result.hsCode6).toBe('610910');
+    expect(result.confidence).toBeGreaterThan(0);
+  });
+
+  it('reports when nothing matches', async () => {
+    const result = await classifyWithZonos({ productName: 'zzz qqq', shipToCountry: 'FR' });
+    expect(result.error).toBe('No classification results from Zonos');
+  });
+});
+
+describe('Zonos mock: landed cost workflow', () => {
+  it('prices duty and VAT from the local tariff schedule despite the rating error', async () => {
+    const result = await calculateDutyWithZonos('6109100010', 200, 'EUR', 'CN', 'FR');
+    expect(result.error).toBeUndefined();
+    expect(result.duties.amount).toBe(24);
+    expect(result.vat.amount).toBe(44.8);
+    expect(result.totalLandedCost).toBe(268.8);
+  });
+
+  it('returns a rating error alongside landed cost when weights are missing', async () => {
+    const { data, errors } = await calculateLandedCost({
+      parties: [
+        { type: 'ORIGIN', location: { countryCode: 'CN' } },
+        { type: 'DESTINATION', location: { countryCode: 'FR' } },
+      ],
+      items: [{ amount: 200, currencyCode: 'EUR', quantity: 1, hsCode: '6109100010' }],
+    });
+    expect(errors.map((error) => error.path)).toEqual([['shipmentRatingCalculateWorkflow']]);
+    expect(data.landedCostCalculateWorkflow).toHaveLength(1);
+  });
+
+  it('attributes charges to each item', async () => {
+    const result = await calculateShipmentWithZonos(
+      [
+        { hsCode: '610910', quantity: 2, unitValue: 50, weightKg: 0.2 },
+        { hsCode: '420221', quantity: 1, unitValue: 100, weightKg: 0.8 },
+      ],
+      'EUR',
+      'CN',
+      'FR'
+    );
+    expect(result.error).toBeUndefined();
+    expect(result.lines.map((line) => line.duties.amount)).toEqual([12, 3]);
+  });
+
+  it('falls back to destination VAT for domestic shipments', async () => {
+    const result = await calculateDutyWithZonos('610910', 200, 'EUR', 'DE', 'FR');
+    expect(result.error).toBeUndefined();
+    expect(result.duties.amount).toBe(0);
+    expect(result.vat.amount).toBe(40);
+  });
+
+  it('surfaces engine errors as GraphQL errors', async () => {
+    const result = await calculateDutyWithZonos('610910', 200, 'EUR', 'CN', 'JP');
+    expect(result.error).toMatch(/No local tariff schedule for destination JP/);
+  });
+});
@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // Offline by default: provider calls are served from recorded fixtures.
+    // PROVIDER_MODE=record re-records them against the live APIs.
+    env: {
+      PROVIDER_MODE: process.env.PROVIDER_MODE || 'replay',
+      PROVIDER_FIXTURES_DIR: 'test/fixtures/providers',
+      DATABASE_URL: 'memory:',
+    },
+  },
+});
@@ -6,6 +6,20 @@ import { useCallback } from 'react';
 import { useShallow } from 'zustand/react/shallow';
 import { useAppStore } from '../services/store';
 import { api } from '../services/api';
+import { formatMoney } from '../services/currencyFormat';
+import * as VoiceFeedback from '../services/voiceFeedback';
+import type { ComparisonProgressEvent, ConsensusMode } from '../types';
+
+// How each classifier is named in progress messages and voice feedback
+const PROVIDER_LABELS: Record<string, string> = {
+  anthropic: 'Claude',
+  openai: 'ChatGPT',
+  zonos: 'Zonos',
+};
+
+function providerLabel(provider: string): string {
+  return PROVIDER_LABELS[provider] || provider;
+}
 
 interface ClassifyOptions {
   productName?: string;
@@ -13,6 +27,7 @@ interface ClassifyOptions {
   productValue?: number;
   originCountry?: string;
   shipToCountry?: string;
+  consensus?: ConsensusMode;
 }
 
 export function useClassification() {
@@ -20,8 +35,10 @@ export function useClassification() {
     isProcessing,
     currentResult,
     error,
+    progressMessage,
     setIsProcessing,
     setCurrentResult,
+    setProgressMessage,
     setScanError,
     addResult,
   } = useAppStore(
@@ -29,28 +46,81 @@ export function useClassification() {
       isProcessing: state.isProcessing,
       currentResult: state.currentResult,
       error: state.error,
+      progressMessage: state.progressMessage,
       setIsProcessing: state.setIsProcessing,
       setCurrentResult: state.setCurrentResult,
+      setProgressMessage: state.setProgressMessage,
       setScanError: state.setScanError,
       addResult: state.addResult,
     }))
   );
 
+  // Turn streamed comparison events into a status line, and speak the first
+  // product identification so glasses users hear it before duties are done
+  const createProgressHandler = useCallback(() => {
+    let announced = false;
+    return (event: ComparisonProgressEvent) => {
+      switch (event.type) {
+        case 'started':
+          setProgressMessage('Classifying...');
+          break;
+        case 'classification': {
+          const label = providerLabel(event.provider);
+          const { result } = event;
+          if (result.error) {
+            setProgressMessage(`${label} couldn't classify this`);
+            break;
+          }
+          setProgressMessage(`${label}: HS ${result.hsCode6}`);
+          if (!announced && result.productIdentified) {
+            announced = true;
+            VoiceFeedback.announceClassification(label, result.productIdentified);
+          }
+          break;
+        }
+        case 'value':
+          setProgressMessage(
+            event.productValue
+              ? `Calculating duties on ${formatMoney(event.productValue, event.currency)}...`
+              : 'No product value — skipping duties'
+          );
+          break;
+        case 'duty':
+          if (!event.calculation.error) {
+            const { display, currency, totalLandedCost } = event.calculation;
+            setProgressMessage(
+              `${providerLabel(event.provider)} landed cost: ${formatMoney(
+                display?.totalLandedCost ?? totalLandedCost,
+                display?.currency ?? currency
+              )}`
+            );
+          }
+          break;
+      }
+    };
+  }, [setProgressMessage]);
+
   // Run classification on an image
   const classifyImage = useCallback(
     async (imageUri: string, options: ClassifyOptions = {}) => {
       setIsProcessing(true);
       setScanError(null);
+      setProgressMessage(null);
 
       try {
-        const result = await api.classifyImage(imageUri, {
-          productName: options.productName,
-          productDescription: options.productDescription,
-          productValue: options.productValue,
-          originCountry: options.originCountry,
-          shipToCountry: options.shipToCountry,
-          calculateDuty: true,
-        });
+        const result = await api.classifyImage(
+          imageUri,
+          {
+            productName: options.productName,
+            productDescription: options.productDescription,
+            productValue: options.productValue,
+            originCountry: options.originCountry,
+            shipToCountry: options.shipToCountry,
+            consensus: options.consensus,
+            calculateDuty: true,
+          },
+          createProgressHandler()
+        );
 
         console.log('[Classification] API response:', JSON.stringify({
           id: result.id,
@@ -82,9 +152,10 @@ export function useClassification() {
         return null;
       } finally {
         setIsProcessing(false);
+        setProgressMessage(null);
       }
     },
-    [setIsProcessing, setCurrentResult, setScanError, addResult]
+    [setIsProcessing, setCurrentResult, setProgressMessage, setScanError, addResult, createProgressHandler]
   );
 
   // Run classification with text only (no image)
@@ -104,6 +175,7 @@ export function useClassification() {
           productValue: options.productValue,
           originCountry: options.originCountry,
           shipToCountry: options.shipToCountry,
+          consensus: options.consensus,
           calculateDuty: true,
         });
 
@@ -133,6 +205,7 @@ export function useClassification() {
     isProcessing,
     currentResult,
     error,
+    progressMessage,
     classifyImage,
     classifyByDescription,
     clearResult,
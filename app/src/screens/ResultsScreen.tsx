@@ -2,7 +2,7 @@
  * Results Screen - Display classification and duty results
  */
 
-import React from 'react';
+import React, { useCallback, useState } from 'react';
 import {
   View,
   Text,
@@ -12,24 +12,222 @@ import {
   SafeAreaView,
   TouchableOpacity,
   Platform,
+  ActivityIndicator,
 } from 'react-native';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RouteProp } from '@react-navigation/native';
 import { useAppStore } from '../services/store';
-import type { RootStackParamList, ClassificationResult, DutyCalculation } from '../types';
+import { api } from '../services/api';
+import { formatMoney } from '../services/currencyFormat';
+import { useSpeechRecognition } from '../hooks';
+import type {
+  RootStackParamList,
+  ClarificationAnswer,
+  ClarificationSession,
+  ClassificationResult,
+  DutyCalculation,
+  HsCandidate,
+} from '../types';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'Results'>;
 type ResultsRouteProp = RouteProp<RootStackParamList, 'Results'>;
 
+// Matches the API's CLARIFY_BELOW_CONFIDENCE default
+const CLARIFY_BELOW_CONFIDENCE = 0.7;
+
+// 6109100010 → 6109.10.0010
+function formatHsCode(code: string): string {
+  return [code.slice(0, 4), code.slice(4, 6), code.slice(6)].filter(Boolean).join('.');
+}
+
+function providerTitle(provider: string): string {
+  return { anthropic: 'Anthropic', openai: 'OpenAI', zonos: 'Zonos' }[provider] ?? provider;
+}
+
+function CandidateRow({
+  candidate,
+  selected,
+  onPress,
+}: {
+  candidate: HsCandidate;
+  selected: boolean;
+  onPress?: () => void;
+}) {
+  return (
+    <TouchableOpacity
+      style={[styles.candidateRow, selected && styles.candidateSelected]}
+      onPress={onPress}
+      disabled={!onPress}
+    >
+      <View style={styles.candidateHeader}>
+        <Text style={styles.candidateCode}>{formatHsCode(candidate.hsCode)}</Text>
+        <Text style={styles.candidateConfidence}>
+          {(candidate.confidence * 100).toFixed(0)}%
+        </Text>
+      </View>
+      <Text style={styles.candidateDescription} numberOfLines={2}>
+        {candidate.description}
+      </Text>
+      {candidate.reasoning && (
+        <Text style={styles.reasoningText}>{candidate.reasoning}</Text>
+      )}
+      {selected && <Text style={styles.candidateSelectedText}>✓ Selected</Text>}
+    </TouchableOpacity>
+  );
+}
+
+// Clarifying questions for a low-confidence classification, answered by tap or voice
+function ClarificationCard({
+  comparisonId,
+  session,
+  onSession,
+  onUseCode,
+}: {
+  comparisonId: string;
+  session?: ClarificationSession;
+  onSession: (session: ClarificationSession) => void;
+  onUseCode?: (candidate: HsCandidate) => void;
+}) {
+  const [answers, setAnswers] = useState<Record<string, ClarificationAnswer>>({});
+  const [listeningFor, setListeningFor] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const answer = (questionId: string, text: string, source: ClarificationAnswer['source']) =>
+    setAnswers((current) => ({ ...current, [questionId]: { questionId, answer: text, source } }));
+
+  const onVoiceResult = useCallback(
+    (transcript: string) => {
+      if (listeningFor) answer(listeningFor, transcript, 'voice');
+      setListeningFor(null);
+    },
+    [listeningFor]
+  );
+  const onVoiceTimeout = useCallback(() => setListeningFor(null), []);
+  const { startListening, partialText } = useSpeechRecognition({
+    onResult: onVoiceResult,
+    onTimeout: onVoiceTimeout,
+  });
+
+  const run = async (call: () => Promise<ClarificationSession>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      onSession(await call());
+      setAnswers({});
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Clarification failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const round = session?.rounds[session.rounds.length - 1];
+  const questions = session?.status === 'awaiting_answers' ? round?.questions ?? [] : [];
+  const refined = session?.status === 'complete' ? round?.classification : undefined;
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Refine the classification</Text>
+
+      {(!session || session.status === 'failed') && (
+        <TouchableOpacity
+          style={styles.candidateRow}
+          onPress={() => run(() => api.startClarification(comparisonId))}
+          disabled={isWorking}
+        >
+          <Text style={styles.candidateDescription}>
+            The code is uncertain. Answer a few questions about the product to settle it.
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {questions.map((question) => (
+        <View key={question.id} style={styles.reasoningContainer}>
+          <Text style={styles.reasoningLabel}>{question.question}</Text>
+          {question.options?.map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[
+                styles.candidateRow,
+                answers[question.id]?.answer === option && styles.candidateSelected,
+              ]}
+              onPress={() => answer(question.id, option, 'tap')}
+            >
+              <Text style={styles.candidateDescription}>{option}</Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            style={styles.candidateRow}
+            onPress={() => {
+              setListeningFor(question.id);
+              startListening();
+            }}
+          >
+            <Text style={styles.candidateDescription}>
+              {listeningFor === question.id
+                ? `🎤 ${partialText || 'Listening…'}`
+                : answers[question.id]?.source === 'voice'
+                  ? `🎤 "${answers[question.id].answer}"`
+                  : '🎤 Answer by voice'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {questions.length > 0 && (
+        <TouchableOpacity
+          style={[styles.candidateRow, styles.candidateSelected]}
+          onPress={() =>
+            run(() => api.answerClarification(comparisonId, Object.values(answers)))
+          }
+          disabled={isWorking || Object.keys(answers).length === 0}
+        >
+          <Text style={styles.candidateSelectedText}>Submit answers</Text>
+        </TouchableOpacity>
+      )}
+
+      {refined && (
+        <TouchableOpacity
+          style={styles.candidateRow}
+          onPress={onUseCode && (() => onUseCode(refined))}
+          disabled={!onUseCode}
+        >
+          <View style={styles.candidateHeader}>
+            <Text style={styles.candidateCode}>{formatHsCode(refined.hsCode)}</Text>
+            <Text style={styles.candidateConfidence}>
+              {(refined.confidence * 100).toFixed(0)}%
+            </Text>
+          </View>
+          <Text style={styles.candidateDescription}>{refined.description}</Text>
+          {onUseCode && (
+            <Text style={styles.candidateSelectedText}>Tap to recalculate duties</Text>
+          )}
+        </TouchableOpacity>
+      )}
+
+      {session?.status === 'failed' && (
+        <Text style={styles.errorText}>{round?.classification.error}</Text>
+      )}
+      {isWorking && <ActivityIndicator color="#1976D2" />}
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+}
+
 function ClassificationCard({
   title,
   result,
   isPrimary,
+  selectedCode,
+  onSelect,
 }: {
   title: string;
   result?: ClassificationResult;
   isPrimary?: boolean;
+  selectedCode?: string;
+  onSelect?: (candidate: HsCandidate) => void;
 }) {
   if (!result) return null;
 
@@ -44,7 +242,9 @@ function ClassificationCard({
         {!hasError && (
           <View style={styles.confidenceBadge}>
             <Text style={styles.confidenceText}>
-              {(result.confidence * 100).toFixed(0)}% confident
+              {result.calibratedConfidence !== undefined
+                ? `${(result.calibratedConfidence * 100).toFixed(0)}% likely (says ${(result.confidence * 100).toFixed(0)}%)`
+                : `${(result.confidence * 100).toFixed(0)}% confident`}
             </Text>
           </View>
         )}
@@ -73,6 +273,22 @@ function ClassificationCard({
             </View>
           )}
 
+          {!!result.alternatives?.length && (
+            <View style={styles.reasoningContainer}>
+              <Text style={styles.reasoningLabel}>
+                Also possible{onSelect ? ' — tap to recalculate duties' : ''}:
+              </Text>
+              {result.alternatives.map((candidate) => (
+                <CandidateRow
+                  key={candidate.hsCode}
+                  candidate={candidate}
+                  selected={candidate.hsCode === selectedCode}
+                  onPress={onSelect && (() => onSelect(candidate))}
+                />
+              ))}
+            </View>
+          )}
+
           <Text style={styles.latency}>
             Response time: {result.latencyMs}ms
           </Text>
@@ -85,15 +301,22 @@ function ClassificationCard({
 function DutyCard({
   title,
   duty,
-  productValue,
 }: {
   title: string;
   duty?: DutyCalculation;
-  productValue?: number;
 }) {
   if (!duty) return null;
 
   const hasError = !!duty.error;
+  // Prefer the amounts the API converted into the requested display currency
+  const display = duty.display;
+  const currency = display?.currency ?? duty.currency;
+  const productValue =
+    display?.productValue ??
+    duty.breakdown.find((line) => line.type === 'Product')?.amount;
+  const dutyAmount = display?.duties ?? duty.duties.amount;
+  const vatAmount = display?.vat ?? duty.vat.amount;
+  const total = display?.totalLandedCost ?? duty.totalLandedCost;
 
   return (
     <View style={styles.card}>
@@ -106,7 +329,7 @@ function DutyCard({
           <View style={styles.dutyRow}>
             <Text style={styles.dutyLabel}>Product Value</Text>
             <Text style={styles.dutyValue}>
-              €{productValue?.toFixed(2) || '0.00'}
+              {formatMoney(productValue, currency)}
             </Text>
           </View>
 
@@ -115,21 +338,28 @@ function DutyCard({
               Customs Duty ({duty.duties.rate})
             </Text>
             <Text style={styles.dutyValue}>
-              €{duty.duties.amount.toFixed(2)}
+              {formatMoney(dutyAmount, currency)}
             </Text>
           </View>
 
           <View style={styles.dutyRow}>
             <Text style={styles.dutyLabel}>VAT ({duty.vat.rate})</Text>
-            <Text style={styles.dutyValue}>€{duty.vat.amount.toFixed(2)}</Text>
+            <Text style={styles.dutyValue}>{formatMoney(vatAmount, currency)}</Text>
           </View>
 
           <View style={[styles.dutyRow, styles.totalRow]}>
             <Text style={styles.totalLabel}>Total Landed Cost</Text>
             <Text style={styles.totalValue}>
-              €{duty.totalLandedCost.toFixed(2)}
+              {formatMoney(total, currency)}
             </Text>
           </View>
+
+          {display && display.currency !== duty.currency && (
+            <Text style={styles.latency}>
+              Assessed in {duty.currency}, shown in {display.currency} at{' '}
+              {display.rate.toFixed(4)} ({display.rateDate})
+            </Text>
+          )}
         </>
       )}
     </View>
@@ -144,6 +374,9 @@ export function ResultsScreen() {
   const result = useAppStore((state) =>
     state.results.find((r) => r.id === comparisonId)
   );
+  const updateResult = useAppStore((state) => state.updateResult);
+  const [isRecalculating, setIsRecalculating] = useState(false);
+  const [selectionError, setSelectionError] = useState<string | null>(null);
 
   if (!result) {
     return (
@@ -167,6 +400,42 @@ export function ResultsScreen() {
     anthropic?.hsCode6 && zonos?.hsCode6
       ? anthropic.hsCode6 === zonos.hsCode6
       : null;
+  const consensus = result.consensus;
+  const selection = result.selection;
+
+  // Duties can only be recalculated when the comparison had a product value
+  const productValue = result.productValue;
+  const selectCandidate = productValue
+    ? async (provider: 'anthropic' | 'zonos', candidate: HsCandidate) => {
+        setIsRecalculating(true);
+        setSelectionError(null);
+        try {
+          const duty = await api.calculateDuty({
+            hsCode: candidate.hsCode,
+            productValue,
+            currency: result.currency,
+            originCountry: result.input?.originCountry,
+            shipToCountry: result.shipToCountry,
+            engine: result.dutyEngine,
+            displayCurrency: result.displayCurrency,
+          });
+          updateResult(result.id, {
+            selection: {
+              provider,
+              hsCode: candidate.hsCode,
+              description: candidate.description,
+              duty,
+            },
+          });
+        } catch (error) {
+          setSelectionError(
+            error instanceof Error ? error.message : 'Duty recalculation failed'
+          );
+        } finally {
+          setIsRecalculating(false);
+        }
+      }
+    : undefined;
 
   return (
     <SafeAreaView style={styles.container}>
@@ -196,16 +465,80 @@ export function ResultsScreen() {
           </View>
         )}
 
+        {/* Recommended classification, combined from every provider */}
+        {consensus && (
+          <View style={[styles.card, styles.primaryCard]}>
+            <View style={styles.cardHeader}>
+              <Text style={[styles.cardTitle, styles.primaryText]}>Recommended</Text>
+              <View style={styles.confidenceBadge}>
+                <Text style={styles.confidenceText}>
+                  {(consensus.agreement * 100).toFixed(0)}% agreement
+                </Text>
+              </View>
+            </View>
+
+            <View style={styles.hsCodeContainer}>
+              <Text style={styles.hsCodeLabel}>HS Code</Text>
+              <Text style={[styles.hsCode, styles.primaryText]}>
+                {formatHsCode(consensus.hsCode)}
+              </Text>
+            </View>
+
+            <Text style={styles.description} numberOfLines={2}>
+              {consensus.description}
+            </Text>
+
+            {consensus.adjudication?.reasoning && (
+              <View style={styles.reasoningContainer}>
+                <Text style={styles.reasoningLabel}>Why:</Text>
+                <Text style={styles.reasoningText}>{consensus.adjudication.reasoning}</Text>
+              </View>
+            )}
+
+            <Text style={styles.latency}>
+              Backed by {consensus.supporters.map(providerTitle).join(', ')}
+            </Text>
+          </View>
+        )}
+
         {/* Classification Results */}
         <Text style={styles.sectionTitle}>Classification Results</Text>
 
         <ClassificationCard
           title="Anthropic Claude"
           result={anthropic}
-          isPrimary
+          isPrimary={!consensus}
+          selectedCode={selection?.hsCode}
+          onSelect={selectCandidate && ((c) => selectCandidate('anthropic', c))}
+        />
+
+        <ClassificationCard
+          title="Zonos (Baseline)"
+          result={zonos}
+          selectedCode={selection?.hsCode}
+          onSelect={selectCandidate && ((c) => selectCandidate('zonos', c))}
         />
 
-        <ClassificationCard title="Zonos (Baseline)" result={zonos} />
+        {(result.clarification ||
+          (anthropic &&
+            !anthropic.error &&
+            (anthropic.calibratedConfidence ?? anthropic.confidence) < CLARIFY_BELOW_CONFIDENCE)) && (
+          <ClarificationCard
+            comparisonId={result.id}
+            session={result.clarification}
+            onSession={(clarification) => updateResult(result.id, { clarification })}
+            onUseCode={selectCandidate && ((c) => selectCandidate('anthropic', c))}
+          />
+        )}
+
+        {isRecalculating && (
+          <View style={styles.selectionBanner}>
+            <ActivityIndicator color="#1976D2" />
+            <Text style={styles.selectionText}>Recalculating duties…</Text>
+          </View>
+        )}
+
+        {selectionError && <Text style={styles.errorText}>{selectionError}</Text>}
 
         {/* Duty Calculations */}
         {result.dutyCalculations && result.productValue && (
@@ -217,21 +550,33 @@ export function ResultsScreen() {
             {result.isEstimatedValue && (
               <View style={styles.estimatedBanner}>
                 <Text style={styles.estimatedText}>
-                  Value estimated by AI (€{result.productValue.toFixed(2)}) — edit on the scan screen for exact results
+                  Value estimated by AI ({formatMoney(result.productValue, result.currency)}) — edit on the scan screen for exact results
                 </Text>
               </View>
             )}
 
+            {selection?.duty && (
+              <>
+                <DutyCard
+                  title={`Based on your selection (${formatHsCode(selection.hsCode)})`}
+                  duty={selection.duty}
+                />
+                <TouchableOpacity
+                  onPress={() => updateResult(result.id, { selection: undefined })}
+                >
+                  <Text style={styles.clearSelectionText}>Clear selection</Text>
+                </TouchableOpacity>
+              </>
+            )}
+
             <DutyCard
               title="Based on Anthropic"
               duty={result.dutyCalculations.anthropic}
-              productValue={result.productValue}
             />
 
             <DutyCard
               title="Based on Zonos"
               duty={result.dutyCalculations.zonos}
-              productValue={result.productValue}
             />
           </>
         )}
@@ -374,6 +719,62 @@ const styles = StyleSheet.create({
     color: '#666',
     fontStyle: 'italic',
   },
+  candidateRow: {
+    marginTop: 8,
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#eee',
+    backgroundColor: '#fafafa',
+  },
+  candidateSelected: {
+    borderColor: '#1976D2',
+    backgroundColor: '#E3F2FD',
+  },
+  candidateHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  candidateCode: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  candidateConfidence: {
+    fontSize: 12,
+    color: '#999',
+  },
+  candidateDescription: {
+    fontSize: 13,
+    color: '#666',
+  },
+  candidateSelectedText: {
+    fontSize: 12,
+    color: '#1976D2',
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  selectionBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  selectionText: {
+    fontSize: 14,
+    color: '#1976D2',
+  },
+  clearSelectionText: {
+    fontSize: 13,
+    color: '#1976D2',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
   latency: {
     fontSize: 11,
     color: '#999',
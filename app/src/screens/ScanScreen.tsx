@@ -15,6 +15,7 @@ import {
   SafeAreaView,
   KeyboardAvoidingView,
   Platform,
+  Switch,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
@@ -86,12 +87,14 @@ export function ScanScreen() {
     pickFromGallery,
     clearImage,
   } = useImageCapture();
-  const { isProcessing, classifyImage, error } = useClassification();
+  const { isProcessing, classifyImage, error, progressMessage } = useClassification();
 
-  const { shipToCountry, setShipToCountry } = useAppStore(
+  const { shipToCountry, setShipToCountry, consensusEnabled, setConsensusEnabled } = useAppStore(
     useShallow((state) => ({
       shipToCountry: state.shipToCountry,
       setShipToCountry: state.setShipToCountry,
+      consensusEnabled: state.consensusEnabled,
+      setConsensusEnabled: state.setConsensusEnabled,
     }))
   );
 
@@ -129,6 +132,7 @@ export function ScanScreen() {
       productValue: productValue ? parseFloat(productValue) : undefined,
       originCountry: originCountry || undefined,
       shipToCountry: shipToCountry || undefined,
+      consensus: consensusEnabled ? 'vote' : undefined,
     });
 
     if (result) {
@@ -287,6 +291,16 @@ export function ScanScreen() {
                 />
               </View>
 
+              {/* Consensus - combine every provider's answer into one recommended code */}
+              <View style={styles.shipToRow}>
+                <Text style={[styles.shipToLabel, { flex: 1 }]}>Consensus</Text>
+                <Switch
+                  value={consensusEnabled}
+                  onValueChange={setConsensusEnabled}
+                  trackColor={{ true: '#1976D2' }}
+                />
+              </View>
+
               {/* Optional fields in a compact layout */}
               <View style={styles.optionalFields}>
                 <View style={styles.inputGroup}>
@@ -339,7 +353,9 @@ export function ScanScreen() {
                 {isProcessing ? (
                   <>
                     <ActivityIndicator color="#fff" style={{ marginRight: 8 }} />
-                    <Text style={styles.classifyButtonText}>Classifying...</Text>
+                    <Text style={styles.classifyButtonText} numberOfLines={1}>
+                      {progressMessage || 'Classifying...'}
+                    </Text>
                   </>
                 ) : (
                   <Text style={styles.classifyButtonText}>
@@ -4,7 +4,17 @@
  * Handles communication with the classification API
  */
 
-import type { ComparisonResult } from '../types';
+import type {
+  ClarificationAnswer,
+  ClarificationSession,
+  ComparisonProgressEvent,
+  ComparisonResult,
+  ConsensusMode,
+  DutyCalculation,
+  DutyEngine,
+  HsLookup,
+  HsNode,
+} from '../types';
 import type { ParsedVoiceCommand } from '../types/voice';
 
 // API configuration
@@ -14,6 +24,9 @@ const API_BASE_URL = __DEV__
   ? 'http://192.168.21.142:3001'
   : 'https://api.dutysnap.com';
 
+// Longest a streamed comparison may take, including every provider and duty engine
+const COMPARISON_TIMEOUT_MS = 120000;
+
 interface ClassifyRequest {
   imageBase64?: string;
   imageUrl?: string;
@@ -23,7 +36,19 @@ interface ClassifyRequest {
   shipToCountry?: string;
   productValue?: number;
   currency?: string;
+  displayCurrency?: string;
   calculateDuty?: boolean;
+  consensus?: ConsensusMode;
+}
+
+interface DutyRequest {
+  hsCode: string;
+  productValue: number;
+  currency?: string;
+  originCountry?: string;
+  shipToCountry?: string;
+  engine?: DutyEngine;
+  displayCurrency?: string;
 }
 
 interface ApiError {
@@ -71,23 +96,120 @@ class ApiService {
     }
   }
 
-  // Run classification comparison
-  async classify(request: ClassifyRequest): Promise<ComparisonResult> {
+  // Run classification comparison; with onProgress, stream stage events as they happen
+  async classify(
+    request: ClassifyRequest,
+    onProgress?: (event: ComparisonProgressEvent) => void
+  ): Promise<ComparisonResult> {
+    const body = JSON.stringify({
+      ...request,
+      providers: ['anthropic', 'zonos'],
+      shipToCountry: request.shipToCountry || 'US',
+      currency: request.currency || 'EUR',
+      displayCurrency: request.displayCurrency || request.currency || 'EUR',
+    });
+
+    if (onProgress) {
+      return this.streamComparison(body, onProgress);
+    }
     return this.fetch<ComparisonResult>('/api/compare', {
       method: 'POST',
-      body: JSON.stringify({
-        ...request,
-        providers: ['anthropic', 'zonos'],
-        shipToCountry: request.shipToCountry || 'US',
-        currency: request.currency || 'EUR',
-      }),
+      body,
+    });
+  }
+
+  // React Native's fetch can't read a response body incrementally, but XHR
+  // exposes the partial responseText on each progress event
+  private streamComparison(
+    body: string,
+    onProgress: (event: ComparisonProgressEvent) => void
+  ): Promise<ComparisonResult> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      let consumed = 0;
+      let result: ComparisonResult | null = null;
+      let streamError: string | null = null;
+      let settled = false;
+
+      // Settle once; a failure mid-stream also stops the request
+      const fail = (error: Error) => {
+        if (settled) return;
+        settled = true;
+        xhr.abort();
+        reject(error);
+      };
+
+      const drain = () => {
+        // Events are separated by a blank line; keep any partial event for later
+        const text = xhr.responseText;
+        let end = text.indexOf('\n\n', consumed);
+        while (end !== -1 && !settled) {
+          const frame = text.slice(consumed, end);
+          consumed = end + 2;
+          const data = frame
+            .split('\n')
+            .filter((line) => line.startsWith('data: '))
+            .map((line) => line.slice(6))
+            .join('\n');
+          if (data) {
+            let event: ComparisonProgressEvent;
+            try {
+              event = JSON.parse(data) as ComparisonProgressEvent;
+            } catch {
+              throw new Error('Malformed event in comparison stream');
+            }
+            if (event.type === 'result') result = event.result;
+            if (event.type === 'error') streamError = event.message;
+            onProgress(event);
+          }
+          end = text.indexOf('\n\n', consumed);
+        }
+      };
+
+      // A bad event or a throwing listener must still settle the promise
+      const safeDrain = () => {
+        try {
+          drain();
+        } catch (error) {
+          fail(error instanceof Error ? error : new Error('Failed to read comparison stream'));
+        }
+      };
+
+      xhr.open('POST', `${this.baseUrl}/api/compare/stream`);
+      xhr.setRequestHeader('Content-Type', 'application/json');
+      xhr.setRequestHeader('Accept', 'text/event-stream');
+      xhr.timeout = COMPARISON_TIMEOUT_MS;
+      xhr.onprogress = safeDrain;
+      xhr.onload = () => {
+        if (settled) return;
+        if (xhr.status < 200 || xhr.status >= 300) {
+          const errorData = (() => {
+            try {
+              return JSON.parse(xhr.responseText) as ApiError;
+            } catch {
+              return {} as ApiError;
+            }
+          })();
+          fail(new Error(errorData.message || errorData.error || `API error: ${xhr.status}`));
+          return;
+        }
+        safeDrain();
+        if (settled) return;
+        settled = true;
+        if (result) resolve(result);
+        else reject(new Error(streamError || 'Comparison stream ended without a result'));
+      };
+      xhr.onerror = () => fail(new Error('Network error during comparison'));
+      xhr.ontimeout = () => fail(new Error(`Comparison timed out after ${COMPARISON_TIMEOUT_MS / 1000}s`));
+      xhr.send(body);
     });
   }
 
   // Classify with image URI (converts to base64)
   async classifyImage(
     imageUri: string,
-    options: Omit<ClassifyRequest, 'imageBase64' | 'imageUrl'> = {}
+    options: Omit<ClassifyRequest, 'imageBase64' | 'imageUrl'> = {},
+    onProgress?: (event: ComparisonProgressEvent) => void
   ): Promise<ComparisonResult> {
     // Always request duty calculation — the backend will use AI-estimated value if none provided
     // Check if it's a URL or local file
@@ -96,7 +218,7 @@ class ApiService {
         ...options,
         imageUrl: imageUri,
         calculateDuty: true,
-      });
+      }, onProgress);
     }
 
     // Convert local file to base64
@@ -105,7 +227,7 @@ class ApiService {
       ...options,
       imageBase64: base64,
       calculateDuty: true,
-    });
+    }, onProgress);
   }
 
   // Convert image file to base64
@@ -150,6 +272,53 @@ class ApiService {
     return this.fetch('/api/compare/stats/summary');
   }
 
+  // Duty and landed cost for a single HS code, e.g. after the user picks an alternative
+  async calculateDuty(request: DutyRequest): Promise<DutyCalculation> {
+    return this.fetch<DutyCalculation>('/api/duty', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  // Start (or restart) a clarification session; the classifier may ask what the code hinges on
+  async startClarification(comparisonId: string): Promise<ClarificationSession> {
+    return this.fetch<ClarificationSession>(`/api/compare/${comparisonId}/clarify`, {
+      method: 'POST',
+    });
+  }
+
+  // Answer the current clarifying questions and get the refined classification
+  async answerClarification(
+    comparisonId: string,
+    answers: ClarificationAnswer[]
+  ): Promise<ClarificationSession> {
+    return this.fetch<ClarificationSession>(`/api/compare/${comparisonId}/clarify/answers`, {
+      method: 'POST',
+      body: JSON.stringify({ answers }),
+    });
+  }
+
+  // Look up an HS code with its section, chapter, heading and subheading texts
+  async lookupHsCode(code: string): Promise<HsLookup> {
+    return this.fetch<HsLookup>(`/api/hs/${encodeURIComponent(code)}`);
+  }
+
+  // List the codes below a section, chapter or heading (e.g. siblings of a classification)
+  async getHsChildren(parent: string): Promise<HsNode[]> {
+    const result = await this.fetch<{ children: HsNode[] }>(
+      `/api/hs/${encodeURIComponent(parent)}/children`
+    );
+    return result.children;
+  }
+
+  // Search HS nomenclature descriptions
+  async searchHsCodes(query: string, limit: number = 20): Promise<HsNode[]> {
+    const result = await this.fetch<{ results: HsNode[] }>(
+      `/api/hs/search?q=${encodeURIComponent(query)}&limit=${limit}`
+    );
+    return result.results;
+  }
+
   // Parse voice command via LLM fallback (Tier 2)
   async parseVoiceCommand(transcript: string): Promise<ParsedVoiceCommand | null> {
     try {
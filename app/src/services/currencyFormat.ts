@@ -0,0 +1,23 @@
+/**
+ * Money formatting for duty results.
+ * Amounts from the API carry their own currency code, so never assume EUR.
+ */
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  EUR: '€',
+  USD: '$',
+  GBP: '£',
+  JPY: '¥',
+  CNY: '¥',
+  KRW: '₩',
+  INR: '₹',
+  CAD: 'CA$',
+  AUD: 'A$',
+  NZD: 'NZ$',
+  CHF: 'CHF ',
+};
+
+export function formatMoney(amount: number | undefined, currency: string = 'EUR'): string {
+  const symbol = CURRENCY_SYMBOLS[currency] ?? `${currency} `;
+  return `${symbol}${(amount ?? 0).toFixed(2)}`;
+}
@@ -28,13 +28,17 @@ interface ScanSlice {
   capturedImage: string | null;
   isProcessing: boolean;
   currentResult: ComparisonResult | null;
+  progressMessage: string | null;
   error: string | null;
   shipToCountry: string;
+  consensusEnabled: boolean;
   setCapturedImage: (image: string | null) => void;
   setIsProcessing: (isProcessing: boolean) => void;
   setCurrentResult: (result: ComparisonResult | null) => void;
+  setProgressMessage: (message: string | null) => void;
   setScanError: (error: string | null) => void;
   setShipToCountry: (country: string) => void;
+  setConsensusEnabled: (enabled: boolean) => void;
   resetScan: () => void;
 }
 
@@ -42,6 +46,7 @@ interface ScanSlice {
 interface HistorySlice {
   results: ComparisonResult[];
   addResult: (result: ComparisonResult) => void;
+  updateResult: (id: string, changes: Partial<ComparisonResult>) => void;
   clearHistory: () => void;
 }
 
@@ -71,18 +76,23 @@ export const useAppStore = create<AppStore>((set) => ({
   capturedImage: null,
   isProcessing: false,
   currentResult: null,
+  progressMessage: null,
   shipToCountry: 'US',
+  consensusEnabled: false,
 
   setCapturedImage: (capturedImage) => set({ capturedImage }),
   setIsProcessing: (isProcessing) => set({ isProcessing }),
   setCurrentResult: (currentResult) => set({ currentResult }),
+  setProgressMessage: (progressMessage) => set({ progressMessage }),
   setScanError: (error) => set({ error }),
   setShipToCountry: (shipToCountry) => set({ shipToCountry }),
+  setConsensusEnabled: (consensusEnabled) => set({ consensusEnabled }),
   resetScan: () =>
     set({
       capturedImage: null,
       isProcessing: false,
       currentResult: null,
+      progressMessage: null,
       error: null,
     }),
 
@@ -90,6 +100,14 @@ export const useAppStore = create<AppStore>((set) => ({
   results: [],
   addResult: (result) =>
     set((state) => ({ results: [result, ...state.results] })),
+  updateResult: (id, changes) =>
+    set((state) => ({
+      results: state.results.map((r) => (r.id === id ? { ...r, ...changes } : r)),
+      currentResult:
+        state.currentResult?.id === id
+          ? { ...state.currentResult, ...changes }
+          : state.currentResult,
+    })),
   clearHistory: () => set({ results: [] }),
 }));
 
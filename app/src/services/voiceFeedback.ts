@@ -107,6 +107,11 @@ export function confirmNavigation(destination: 'back' | 'history' | 'home'): voi
   speak(labels[destination] || 'Navigating.');
 }
 
+export function announceClassification(source: string, product: string): void {
+  const article = /^[aeiou]/i.test(product) ? 'an' : 'a';
+  speak(`${source} thinks this is ${article} ${product}.`);
+}
+
 export function sayListening(): void {
   speak("I'm listening.");
 }
@@ -0,0 +1,20 @@
+export type HsNodeLevel = 'section' | 'chapter' | 'heading' | 'subheading';
+
+export interface HsNode {
+  code: string;
+  formatted: string;
+  level: HsNodeLevel;
+  description: string;
+  hasChildren: boolean;
+}
+
+export interface HsLookup {
+  code: string;
+  formatted: string;
+  verifiedTo: 'chapter' | 'heading' | 'subheading';
+  section?: HsNode;
+  chapter: HsNode;
+  heading?: HsNode;
+  subheading?: HsNode;
+  national?: string;
+}
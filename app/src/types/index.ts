@@ -29,11 +29,77 @@ export interface ClassificationResult {
   hsCode8?: string;
   description: string;
   confidence: number;
+  calibratedConfidence?: number; // From labelled history, once there is enough of it
   reasoning?: string;
+  productIdentified?: string;
+  alternatives?: HsCandidate[]; // Most likely first
   latencyMs: number;
   error?: string;
 }
 
+// A code a provider considered besides the one it chose
+export interface HsCandidate {
+  hsCode: string;
+  hsCode6: string;
+  hsCode8?: string;
+  description: string;
+  confidence: number;
+  reasoning?: string;
+}
+
+// Code the user picked on the Results screen, with duty recalculated for it
+export interface HsSelection {
+  provider: 'anthropic' | 'zonos';
+  hsCode: string;
+  description: string;
+  duty?: DutyCalculation;
+}
+
+// How providers' answers are combined: a weighted vote, or a vote with an LLM breaking ties
+export type ConsensusMode = 'vote' | 'adjudicate';
+
+// One recommended code combined from every provider's answer
+export interface ConsensusClassification {
+  method: 'unanimous' | 'vote' | 'adjudicated';
+  hsCode: string;
+  hsCode6: string;
+  hsCode8?: string;
+  description: string;
+  agreement: number; // 0-1 share of providers behind hsCode6
+  supporters: string[];
+  adjudication?: {
+    reasoning?: string;
+    error?: string;
+  };
+}
+
+export interface ClarifyingQuestion {
+  id: string;
+  question: string;
+  options?: string[];
+  reason?: string;
+}
+
+export interface ClarificationAnswer {
+  questionId: string;
+  answer: string;
+  source?: 'tap' | 'voice' | 'text';
+}
+
+// Multi-turn classification: answers to each round's questions refine the next
+export interface ClarificationSession {
+  status: 'awaiting_answers' | 'complete' | 'failed';
+  rounds: Array<{
+    classification: ClassificationResult;
+    questions: ClarifyingQuestion[];
+    answers?: ClarificationAnswer[];
+  }>;
+  startedAt: string;
+  updatedAt: string;
+}
+
+export type DutyEngine = 'zonos' | 'local';
+
 export interface DutyCalculation {
   provider: 'anthropic' | 'zonos';
   hsCode: string;
@@ -51,8 +117,24 @@ export interface DutyCalculation {
     type: string;
     amount: number;
     rate?: string;
+    reason?: string;
   }>;
   currency: string;
+  fx?: {
+    from: string;
+    to: string;
+    rate: number;
+    rateDate: string;
+  };
+  display?: {
+    currency: string;
+    productValue: number;
+    duties: number;
+    vat: number;
+    totalLandedCost: number;
+    rate: number;
+    rateDate: string;
+  };
   error?: string;
 }
 
@@ -64,8 +146,16 @@ export interface ComparisonResult {
   productDescription?: string;
   productValue?: number;
   isEstimatedValue?: boolean;
+  currency?: string;
+  displayCurrency?: string;
   shipToCountry?: string;
-  originCountry?: string;
+  dutyEngine?: DutyEngine;
+  // What was sent for classification; originCountry is only set here, not on the result
+  input?: {
+    productName?: string;
+    productDescription?: string;
+    originCountry?: string;
+  };
   classifications: {
     anthropic?: ClassificationResult;
     zonos?: ClassificationResult;
@@ -74,8 +164,21 @@ export interface ComparisonResult {
     anthropic?: DutyCalculation;
     zonos?: DutyCalculation;
   };
+  consensus?: ConsensusClassification;
+  clarification?: ClarificationSession;
+  selection?: HsSelection;
 }
 
+// Streaming comparison progress (POST /api/compare/stream)
+export type ComparisonProgressEvent =
+  | { type: 'started'; id: string; providers: string[] }
+  | { type: 'classification'; provider: string; result: ClassificationResult }
+  | { type: 'value'; productValue?: number; currency: string; isEstimatedValue: boolean }
+  | { type: 'duty'; provider: string; calculation: DutyCalculation }
+  | { type: 'consensus'; consensus: ConsensusClassification }
+  | { type: 'result'; result: ComparisonResult }
+  | { type: 'error'; message: string };
+
 // Navigation types
 export type RootStackParamList = {
   Home: undefined;
@@ -88,6 +191,9 @@ export type RootStackParamList = {
 // Voice types
 export * from './voice';
 
+// HS nomenclature types
+export * from './hs';
+
 // Scan state
 export interface ScanState {
   capturedImage: string | null;
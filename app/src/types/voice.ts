@@ -28,6 +28,8 @@ export interface ParsedVoiceCommand {
   destination?: 'back' | 'history' | 'home';
   /** Raw transcript that was parsed */
   rawTranscript?: string;
+  /** Model that parsed the transcript, when the server fallback did */
+  model?: string;
 }
 
 export interface VoiceFeedbackOptions {